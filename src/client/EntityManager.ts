@@ -0,0 +1,180 @@
+import type { SocketClient } from './SocketClient';
+import { CustomEvent, Delivery } from '../types';
+import { EntityUpdatePayload } from '../logic/delta';
+import { NotConnectedError } from './errors';
+
+/**
+ * Payload of a `world:snapshot` message: every entity update produced in one network tick.
+ */
+export interface WorldSnapshot {
+    updates: EntityUpdatePayload<any>[];
+}
+
+/**
+ * Where an entity update came from.
+ */
+export interface EntityUpdateMeta {
+    roomId: string;
+    from: string;
+    ts: number;
+}
+
+/**
+ * An owned entity that contributes updates to the outgoing batch.
+ * `collect` is called once per tick (at most every `rate` ms) and returns null when there is nothing to send.
+ */
+export interface EntityUpdateSource {
+    roomId: string;
+    entityId: string;
+    rate?: number;
+    delivery?: Delivery; // Default 'reliable'
+    collect(now: number): EntityUpdatePayload<any> | null;
+    onAck?(update: EntityUpdatePayload<any>): void;
+}
+
+type EntityUpdateCallback = (update: EntityUpdatePayload<any>, meta: EntityUpdateMeta) => void;
+
+/**
+ * Sends one batch to a room. Resolves once it was delivered (acked by the server, or handed to the peers).
+ */
+export type EntitySender = (roomId: string, event: 'world:snapshot', snapshot: WorldSnapshot, delivery: Delivery) => Promise<boolean>;
+
+/**
+ * Central network tick for entity state.
+ * Collects the pending updates of all owned entities and sends them as one `world:snapshot`
+ * per room and delivery class per tick, then fans incoming batches out to per-entity subscribers.
+ */
+export class EntityManager {
+    private client: SocketClient;
+    private sources: Set<EntityUpdateSource> = new Set();
+    private lastCollected: Map<EntityUpdateSource, number> = new Map();
+    private subscribers: Map<string, Set<EntityUpdateCallback>> = new Map(); // By `${roomId}:${entityId}`
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private tickRate = 50; // ms, 20 ticks/sec
+    private sender: EntitySender | null = null; // Defaults to the socket relay
+
+    constructor(client: SocketClient) {
+        this.client = client;
+        this.client.on('world:snapshot', this.handleSnapshot);
+        // Single updates from older clients or the server
+        this.client.on('entity:update', this.handleSingleUpdate);
+    }
+
+    public setTickRate(ms: number) {
+        this.tickRate = ms;
+        if (this.timer) {
+            this.stop();
+            this.start();
+        }
+    }
+
+    /**
+     * Routes outgoing batches through something other than the socket, e.g. `MessageRouter` for WebRTC.
+     * Pass null to go back to the socket.
+     */
+    public setSender(sender: EntitySender | null) {
+        this.sender = sender;
+    }
+
+    /**
+     * Registers an owned entity. The tick runs while at least one source is registered.
+     * @returns A function that unregisters the source.
+     */
+    public addSource(source: EntityUpdateSource): () => void {
+        this.sources.add(source);
+        this.start();
+        return () => {
+            this.sources.delete(source);
+            this.lastCollected.delete(source);
+            if (this.sources.size === 0) this.stop();
+        };
+    }
+
+    /**
+     * Subscribes to incoming updates for one entity of a room. The same id in another room is another entity.
+     * Pass an empty roomId to hear the id in every room.
+     * @returns A function that removes the subscription.
+     */
+    public subscribe(roomId: string, entityId: string, callback: EntityUpdateCallback): () => void {
+        const key = `${roomId}:${entityId}`;
+        if (!this.subscribers.has(key)) {
+            this.subscribers.set(key, new Set());
+        }
+        this.subscribers.get(key)?.add(callback);
+        return () => {
+            const set = this.subscribers.get(key);
+            set?.delete(callback);
+            if (set?.size === 0) this.subscribers.delete(key);
+        };
+    }
+
+    private start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.tick(), this.tickRate);
+    }
+
+    private stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private tick() {
+        if (!this.client.isConnected()) return;
+
+        const now = Date.now();
+        const batches: Map<string, { update: EntityUpdatePayload<any>; source: EntityUpdateSource }[]> = new Map();
+        const batchKey = (source: EntityUpdateSource) => `${source.delivery ?? 'reliable'}:${source.roomId}`;
+
+        this.sources.forEach(source => {
+            // The outbox would only drop the batch until the room is rejoined
+            if (!this.client.isRoomReady(source.roomId)) return;
+            // Half a tick of slack so a rate equal to the tick rate isn't skipped on timer jitter
+            const last = this.lastCollected.get(source) ?? -Infinity;
+            if (now - last < (source.rate ?? 0) - this.tickRate / 2) return;
+
+            const update = source.collect(now);
+            if (!update) return;
+            this.lastCollected.set(source, now);
+
+            const key = batchKey(source);
+            if (!batches.has(key)) batches.set(key, []);
+            batches.get(key)?.push({ update, source });
+        });
+
+        batches.forEach(entries => {
+            const { roomId, delivery = 'reliable' } = entries[0].source;
+            const snapshot: WorldSnapshot = { updates: entries.map(e => e.update) };
+            const send: EntitySender = this.sender ?? ((room, event, payload, mode) => this.client.emitToRoom(room, event, payload, { delivery: mode }));
+            const sent = send(roomId, 'world:snapshot', snapshot, delivery);
+            // Dropped by the outbox policy while offline: expected, the next tick sends fresh state
+            const warn = (message: string) => (err: unknown) => {
+                if (!(err instanceof NotConnectedError)) console.warn(message, err);
+            };
+            // Nothing confirms unreliable batches arrived, so they never become delta baselines
+            if (delivery === 'unreliable') {
+                sent.catch(warn('World snapshot not sent:'));
+                return;
+            }
+            sent
+                .then(() => entries.forEach(e => e.source.onAck?.(e.update)))
+                .catch(warn('World snapshot not acknowledged:'));
+        });
+    }
+
+    private dispatch(update: EntityUpdatePayload<any>, meta: EntityUpdateMeta) {
+        this.subscribers.get(`${meta.roomId}:${update.entityId}`)?.forEach(cb => cb(update, meta));
+        this.subscribers.get(`:${update.entityId}`)?.forEach(cb => cb(update, meta));
+    }
+
+    private handleSnapshot = (data: CustomEvent<WorldSnapshot>) => {
+        const meta = { roomId: data.roomId, from: data.from, ts: data.ts ?? Date.now() };
+        data.payload?.updates?.forEach(update => this.dispatch(update, meta));
+    };
+
+    private handleSingleUpdate = (data: CustomEvent<EntityUpdatePayload<any>>) => {
+        if (!data.payload?.entityId) return;
+        this.dispatch(data.payload, { roomId: data.roomId, from: data.from, ts: data.ts ?? Date.now() });
+    };
+}
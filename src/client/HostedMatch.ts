@@ -0,0 +1,435 @@
+import { SocketClient } from './SocketClient';
+import { PeerClient } from './PeerClient';
+import { electOldestMember } from '../logic/election';
+import { Member, PeerMessage, Room } from '../types';
+
+/**
+ * One player's input, as collected by the host for a tick.
+ */
+export interface HostInput<I> {
+    userId: string;
+    seq: number;
+    input: I;
+}
+
+/**
+ * Advances the match by one tick. Only runs on the host.
+ */
+export type HostStepFunction<S, I> = (state: S, inputs: HostInput<I>[], dt: number) => S;
+
+export interface HostedMatchOptions<S, I> {
+    initialState: S;
+    step: HostStepFunction<S, I>;
+    tickRate?: number; // ms between host ticks. Default 50.
+    preferAdmins?: boolean; // Elect the oldest admin instead of the oldest member
+    maxPendingInputs?: number; // Unacknowledged inputs kept to resend after a migration. Default 100.
+    resume?: HostStatePayload<S>; // Snapshot of a previous instance (`getSnapshot()` after `stop()`), to carry on from
+}
+
+/**
+ * Payload of `host:state`, broadcast by the host every tick.
+ * `epoch` increases with every host change so messages from a former host are ignored.
+ */
+export interface HostStatePayload<S> {
+    state: S;
+    tick: number;
+    epoch: number;
+    acks: Record<string, number>; // Last input seq applied, per userId
+    resigned?: string[]; // Members who stopped playing and can't be elected
+}
+
+/**
+ * Payload of `host:input`, sent by players to the host.
+ */
+export interface HostInputPayload<I> {
+    seq: number;
+    input: I;
+}
+
+/**
+ * Payload of `host:handover`: a leaving host's final state, sent to its successor.
+ */
+export interface HostHandoverPayload<S> extends HostStatePayload<S> {
+    to: string;
+}
+
+type StateListener<S> = (state: S, tick: number) => void;
+type HostListener = (hostId: string | null, previous: string | null) => void;
+
+/**
+ * A match simulated by one of the players (the host) instead of the server.
+ * The host is the longest-standing member of the room: it collects inputs over WebRTC data connections,
+ * runs `step` every tick and broadcasts the resulting state. The socket server only handles signaling and presence.
+ *
+ * When the host leaves, every client elects the same successor from the same member list, and the successor
+ * carries on from the last state it received (or the state handed over by a host leaving cleanly), so the match
+ * doesn't restart. Inputs the old host never acknowledged are resent to the new one.
+ *
+ * @example
+ * const match = new HostedMatch('duel-1', { initialState, step: (state, inputs, dt) => simulate(state, inputs, dt) });
+ * match.setRoom(room); // and again whenever the members change
+ * match.start();
+ * match.onState(state => render(state));
+ * match.sendInput({ move: 'left' });
+ */
+export class HostedMatch<S = any, I = any> {
+    public readonly roomId: string;
+    private client: SocketClient;
+    private peers: PeerClient;
+    private options: Required<Omit<HostedMatchOptions<S, I>, 'initialState' | 'resume'>>;
+
+    private members: Member[] = [];
+    private admins: string[] = [];
+    private resigned: Set<string> = new Set();
+    private rejoinSent = false;
+    private hostId: string | null = null;
+    private epoch = 0;
+    private tick = 0;
+    private state: S;
+    private acks: Record<string, number> = {};
+    private running = false;
+    private synced = false; // Received a state from the current host yet
+
+    // Host side
+    private inbox: HostInput<I>[] = [];
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private lastTick = 0;
+
+    // Player side
+    private seq = 0;
+    private pending: HostInputPayload<I>[] = [];
+
+    private stateListeners: Set<StateListener<S>> = new Set();
+    private hostListeners: Set<HostListener> = new Set();
+
+    constructor(roomId: string, options: HostedMatchOptions<S, I>, client: SocketClient = SocketClient.getInstance(), peers: PeerClient = PeerClient.getInstance()) {
+        this.roomId = roomId;
+        this.client = client;
+        this.peers = peers;
+        this.state = options.initialState;
+        if (options.resume) {
+            this.state = options.resume.state;
+            this.tick = options.resume.tick;
+            this.epoch = options.resume.epoch;
+            this.acks = { ...options.resume.acks };
+            this.resigned = new Set(options.resume.resigned ?? []);
+        }
+        this.options = {
+            step: options.step,
+            tickRate: options.tickRate ?? 50,
+            preferAdmins: options.preferAdmins ?? false,
+            maxPendingInputs: options.maxPendingInputs ?? 100,
+        };
+    }
+
+    public start() {
+        if (this.running) return;
+        this.running = true;
+        this.peers.onMessage('host:state', this.handleState);
+        this.peers.onMessage('host:input', this.handleInput);
+        this.peers.onMessage('host:handover', this.handleHandover);
+        this.peers.onMessage('host:resign', this.handleResign);
+        this.peers.onMessage('host:rejoin', this.handleRejoin);
+        // Resuming after a stop: we stay out of the election until the host has taken us back
+        this.rejoinSent = false;
+        this.requestRejoin();
+        this.elect();
+    }
+
+    /**
+     * Stops taking part while staying in the room. The others stop electing us: a host hands its state
+     * to its successor, and everyone moves on to it. `start()` (or a new instance resuming from `getSnapshot()`) takes part again.
+     */
+    public stop() {
+        if (!this.running) return;
+        const me = this.me();
+        if (me) {
+            const wasHost = this.isHost();
+            this.resigned.add(me);
+            if (wasHost) {
+                const successor = this.electFrom(this.eligible());
+                if (successor) this.sendTo(successor.userId, 'host:handover', { ...this.snapshot(), to: successor.userId });
+            }
+            this.broadcastEvent('host:resign', {});
+        }
+        this.running = false;
+        this.hostId = null;
+        this.stopTicking();
+        this.peers.offMessage('host:state', this.handleState);
+        this.peers.offMessage('host:input', this.handleInput);
+        this.peers.offMessage('host:handover', this.handleHandover);
+        this.peers.offMessage('host:resign', this.handleResign);
+        this.peers.offMessage('host:rejoin', this.handleRejoin);
+    }
+
+    /**
+     * The latest state, tick and epoch, to resume from in a new instance (`options.resume`).
+     */
+    public getSnapshot(): HostStatePayload<S> {
+        return this.snapshot();
+    }
+
+    /**
+     * Updates the member list the host is elected from. Call it whenever members join or leave.
+     */
+    public setRoom(room: Room | null) {
+        this.members = room?.members ?? [];
+        this.admins = room?.admins ?? [];
+        // Whoever left is eligible again should they come back
+        this.resigned.forEach(userId => {
+            if (!this.members.some(m => m.userId === userId)) this.resigned.delete(userId);
+        });
+        if (this.running) this.elect();
+    }
+
+    public configure(options: Partial<Omit<HostedMatchOptions<S, I>, 'initialState' | 'resume'>>) {
+        const tickRate = this.options.tickRate;
+        this.options = { ...this.options, ...Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)) };
+        if (this.timer && tickRate !== this.options.tickRate) {
+            this.stopTicking();
+            this.startTicking();
+        }
+    }
+
+    /**
+     * Sends an input to the host, or queues it for our own next tick when we are the host.
+     */
+    public sendInput(input: I) {
+        const me = this.me();
+        if (!me) return;
+        const payload: HostInputPayload<I> = { seq: ++this.seq, input };
+
+        if (this.isHost()) {
+            this.inbox.push({ userId: me, ...payload });
+            return;
+        }
+        this.pending.push(payload);
+        if (this.pending.length > this.options.maxPendingInputs) this.pending.shift();
+        if (this.hostId) this.sendTo(this.hostId, 'host:input', payload);
+    }
+
+    /**
+     * Changes the state outside of `step` (e.g. to reset a round). Host only.
+     */
+    public setState(next: S | ((prev: S) => S)) {
+        if (!this.isHost()) return;
+        this.state = typeof next === 'function' ? (next as (prev: S) => S)(this.state) : next;
+        this.broadcast();
+        this.notifyState();
+    }
+
+    public getState(): S {
+        return this.state;
+    }
+
+    public getTick(): number {
+        return this.tick;
+    }
+
+    public getHost(): string | null {
+        return this.hostId;
+    }
+
+    public isHost(): boolean {
+        return this.hostId !== null && this.hostId === this.me();
+    }
+
+    public onState(listener: StateListener<S>): () => void {
+        this.stateListeners.add(listener);
+        return () => {
+            this.stateListeners.delete(listener);
+        };
+    }
+
+    public onHostChange(listener: HostListener): () => void {
+        this.hostListeners.add(listener);
+        return () => {
+            this.hostListeners.delete(listener);
+        };
+    }
+
+    // Election
+    private electFrom(members: Member[]): Member | null {
+        return electOldestMember(members, { preferAdmins: this.options.preferAdmins, admins: this.admins });
+    }
+
+    private eligible(): Member[] {
+        return this.members.filter(m => !this.resigned.has(m.userId));
+    }
+
+    // Every client runs this on the same member list, so they all agree on the host without extra messages
+    private elect() {
+        const previous = this.hostId;
+        let next = this.electFrom(this.eligible())?.userId ?? null;
+        // Nobody left to take us back: play on our own
+        const me = this.me();
+        if (next === null && me && this.resigned.has(me) && this.members.some(m => m.userId === me)) {
+            this.resigned.delete(me);
+            next = this.electFrom(this.eligible())?.userId ?? null;
+        }
+        if (next === previous) return;
+
+        this.hostId = next;
+        this.synced = false;
+        this.inbox = [];
+
+        if (this.isHost()) {
+            // A new epoch, so late messages from the former host lose against ours
+            this.epoch++;
+            this.synced = true;
+            // Carry on from the latest state we have, with our own unacknowledged inputs first
+            const me = this.me()!;
+            this.pending.forEach(p => this.inbox.push({ userId: me, ...p }));
+            this.pending = [];
+            this.startTicking();
+            this.broadcast();
+        } else {
+            this.stopTicking();
+            if (next) this.pending.forEach(p => this.sendTo(next, 'host:input', p));
+        }
+        this.hostListeners.forEach(cb => cb(next, previous));
+    }
+
+    // Host side
+    private startTicking() {
+        if (this.timer) return;
+        this.lastTick = Date.now();
+        this.timer = setInterval(this.runTick, this.options.tickRate);
+    }
+
+    private stopTicking() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    private runTick = () => {
+        const now = Date.now();
+        const dt = now - this.lastTick;
+        this.lastTick = now;
+
+        const inputs = this.inbox;
+        this.inbox = [];
+        inputs.forEach(({ userId, seq }) => {
+            this.acks[userId] = Math.max(this.acks[userId] ?? 0, seq);
+        });
+
+        try {
+            this.state = this.options.step(this.state, inputs, dt);
+        } catch (err) {
+            console.warn('Host step failed:', err);
+            return;
+        }
+        this.tick++;
+        this.broadcast();
+        this.notifyState();
+    };
+
+    private handleInput = (message: PeerMessage<HostInputPayload<I>>) => {
+        if (message.roomId !== this.roomId || !this.isHost()) return;
+        const { seq, input } = message.payload ?? {};
+        if (typeof seq !== 'number' || !this.members.some(m => m.userId === message.from)) return;
+        // Inputs resent after a migration may already have been applied by the old host
+        if (seq <= (this.acks[message.from] ?? 0)) return;
+        if (this.inbox.some(i => i.userId === message.from && i.seq === seq)) return;
+        this.inbox.push({ userId: message.from, seq, input });
+    };
+
+    private snapshot(): HostStatePayload<S> {
+        return { state: this.state, tick: this.tick, epoch: this.epoch, acks: this.acks, resigned: [...this.resigned] };
+    }
+
+    private broadcast() {
+        this.broadcastEvent('host:state', this.snapshot());
+    }
+
+    private broadcastEvent(event: string, payload: any) {
+        const me = this.me();
+        const peerIds = this.members
+            .filter(m => m.userId !== me)
+            .map(m => m.peerId ?? this.peers.getPeerId(m.userId))
+            .filter((peerId): peerId is string => !!peerId);
+        this.peers.broadcast({ event, payload, roomId: this.roomId }, peerIds);
+    }
+
+    // Resignations
+    private handleResign = (message: PeerMessage) => {
+        if (message.roomId !== this.roomId || !this.members.some(m => m.userId === message.from)) return;
+        this.resigned.add(message.from);
+        this.elect();
+    };
+
+    private handleRejoin = (message: PeerMessage) => {
+        if (message.roomId !== this.roomId || !this.resigned.has(message.from)) return;
+        const wasHost = this.isHost();
+        this.resigned.delete(message.from);
+        // Losing the host role to the returning member: hand it the latest state first
+        if (wasHost && this.electFrom(this.eligible())?.userId === message.from) {
+            this.sendTo(message.from, 'host:handover', { ...this.snapshot(), to: message.from });
+        }
+        this.elect();
+    };
+
+    private requestRejoin() {
+        const me = this.me();
+        if (!me || !this.resigned.has(me) || this.rejoinSent) return;
+        this.rejoinSent = true;
+        this.broadcastEvent('host:rejoin', {});
+    }
+
+    // Player side
+    private handleState = (message: PeerMessage<HostStatePayload<S>>) => {
+        if (message.roomId !== this.roomId || message.from !== this.hostId || this.isHost()) return;
+        const payload = message.payload;
+        if (!payload) return;
+        // Whatever the new host starts from wins; after that, out-of-order states are dropped
+        if (this.synced && (payload.epoch < this.epoch || (payload.epoch === this.epoch && payload.tick < this.tick))) return;
+        this.synced = true;
+        this.adopt(payload);
+    };
+
+    // The host is leaving cleanly and picked us: keep its final state for when the election catches up
+    private handleHandover = (message: PeerMessage<HostHandoverPayload<S>>) => {
+        if (message.roomId !== this.roomId || message.from !== this.hostId) return;
+        const payload = message.payload;
+        if (!payload || payload.to !== this.me() || payload.epoch < this.epoch) return;
+        this.adopt(payload);
+    };
+
+    private adopt(payload: HostStatePayload<S>) {
+        // Late joiners learn the epoch (and who resigned) from the first state they receive
+        this.epoch = payload.epoch;
+        this.tick = payload.tick;
+        this.state = payload.state;
+        this.acks = { ...payload.acks };
+
+        const acked = this.acks[this.me() ?? ''] ?? 0;
+        this.pending = this.pending.filter(p => p.seq > acked);
+        if (acked > this.seq) this.seq = acked;
+        this.notifyState();
+
+        // The host's list is the reference; once it no longer has us, we are back in the election
+        const resigned = new Set(payload.resigned ?? []);
+        const changed = resigned.size !== this.resigned.size || [...resigned].some(userId => !this.resigned.has(userId));
+        this.resigned = resigned;
+        if (changed) {
+            this.requestRejoin();
+            this.elect();
+        }
+    }
+
+    private sendTo(userId: string, event: string, payload: any) {
+        const member = this.members.find(m => m.userId === userId);
+        const peerId = member?.peerId ?? this.peers.getPeerId(userId);
+        if (!peerId || !this.peers.send(peerId, { event, payload, roomId: this.roomId })) {
+            console.warn(`No data connection to ${userId} for ${event}`);
+        }
+    }
+
+    private me(): string | null {
+        return this.client.getUserId();
+    }
+
+    private notifyState() {
+        this.stateListeners.forEach(cb => cb(this.state, this.tick));
+    }
+}
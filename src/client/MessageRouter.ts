@@ -0,0 +1,141 @@
+import { SocketClient } from './SocketClient';
+import { PeerClient } from './PeerClient';
+import { CustomEvent, DefaultEventMap, EmitOptions, Member, PeerMessage, Room, RoomEventName, RoomEvents } from '../types';
+
+export type Route = 'p2p' | 'socket';
+
+/**
+ * What a routing strategy knows about a message's recipients.
+ */
+export interface RouteContext {
+    roomId: string;
+    event: string;
+    reachable: Member[]; // Other members with an open data connection
+    unreachable: Member[]; // Other members we can only reach through the server
+}
+
+export type RoutingStrategy = (context: RouteContext) => Route;
+
+/**
+ * Default strategy: peer-to-peer when every other member has an open data connection, the socket relay otherwise.
+ */
+export const fullMeshOrRelay: RoutingStrategy = ({ reachable, unreachable }) => {
+    return reachable.length > 0 && unreachable.length === 0 ? 'p2p' : 'socket';
+};
+
+/**
+ * Unified messaging: sends room events over WebRTC data connections when the mesh allows it,
+ * through the socket otherwise, and feeds messages received from peers into the SocketClient listeners.
+ * Entity updates (`useNetworkEntity`) go through it once it exists.
+ */
+export class MessageRouter {
+    private static instance: MessageRouter;
+    private client: SocketClient;
+    private peers: PeerClient;
+    private rooms: Map<string, Room> = new Map();
+    private strategy: RoutingStrategy = fullMeshOrRelay;
+    private idPrefix = Math.random().toString(36).slice(2, 8);
+    private nextMessageId = 0;
+    private seen: Set<string> = new Set(); // Recent message ids, oldest first
+    private static readonly maxSeen = 1000;
+
+    private constructor(client: SocketClient, peers: PeerClient) {
+        this.client = client;
+        this.peers = peers;
+
+        this.peers.on('message', this.handlePeerMessage);
+        this.client.on('router:relay', this.handleRelay);
+        this.client.entities.setSender((roomId, event, payload, delivery) => this.send(roomId, event, payload, { delivery }));
+    }
+
+    public static getInstance(): MessageRouter {
+        if (!MessageRouter.instance) {
+            MessageRouter.instance = new MessageRouter(SocketClient.getInstance(), PeerClient.getInstance());
+        }
+        return MessageRouter.instance;
+    }
+
+    /**
+     * Keeps the member list used to decide routes. Pass null when leaving the room.
+     */
+    public setRoom(roomId: string, room: Room | null) {
+        if (room) this.rooms.set(roomId, room);
+        else this.rooms.delete(roomId);
+    }
+
+    /**
+     * Replaces the routing strategy. Pass null to restore `fullMeshOrRelay`.
+     */
+    public setStrategy(strategy: RoutingStrategy | null) {
+        this.strategy = strategy ?? fullMeshOrRelay;
+    }
+
+    public getRoute(roomId: string, event: string): Route {
+        const room = this.rooms.get(roomId);
+        if (!room) return 'socket';
+
+        const me = this.client.getUserId();
+        const reachable: Member[] = [];
+        const unreachable: Member[] = [];
+        room.members.forEach(member => {
+            if (member.userId === me) return;
+            const peerId = member.peerId ?? this.peers.getPeerId(member.userId);
+            if (peerId && this.peers.isConnectedTo(peerId)) reachable.push(member);
+            else unreachable.push(member);
+        });
+
+        return this.strategy({ roomId, event, reachable, unreachable });
+    }
+
+    /**
+     * Sends a room event over the route picked by the strategy.
+     * Peer-to-peer sends resolve right away; socket sends resolve on the server's ack.
+     * If some data connections closed in between, the server relays the message too, and the members
+     * who already got it peer-to-peer drop the copy.
+     * `delivery: 'unreliable'` uses the peers' `unreliable` channel, or a volatile socket emit.
+     */
+    public send<K extends RoomEventName<DefaultEventMap>>(roomId: string, event: K, payload: RoomEvents<DefaultEventMap>[K], options: EmitOptions = {}): Promise<boolean> {
+        if (this.getRoute(roomId, event) === 'p2p') {
+            const room = this.rooms.get(roomId);
+            const me = this.client.getUserId();
+            const peerIds = (room?.members ?? [])
+                .filter(m => m.userId !== me)
+                .map(m => m.peerId ?? this.peers.getPeerId(m.userId))
+                .filter((peerId): peerId is string => !!peerId);
+            const messageId = `${this.idPrefix}-${(++this.nextMessageId).toString(36)}`;
+            this.remember(messageId);
+            const sent = this.peers.broadcast({ event, payload, roomId, id: messageId }, peerIds, { channel: options.delivery ?? 'reliable' });
+            if (sent.length === peerIds.length) return Promise.resolve(true);
+            // A connection closed in between: let the server deliver it to the rest
+            if (sent.length > 0) return this.client.emitToRoom(roomId, 'router:relay', { messageId, event, payload }, options);
+        }
+        return this.client.emitToRoom(roomId, event, payload, options);
+    }
+
+    // Returns false if the message was already seen
+    private remember(messageId: string): boolean {
+        if (this.seen.has(messageId)) return false;
+        this.seen.add(messageId);
+        if (this.seen.size > MessageRouter.maxSeen) this.seen.delete(this.seen.values().next().value!);
+        return true;
+    }
+
+    private handleRelay = (data: CustomEvent<RoomEvents<DefaultEventMap>['router:relay']>) => {
+        const relayed = data.payload;
+        if (!relayed?.messageId || typeof relayed.event !== 'string' || !this.remember(relayed.messageId)) return;
+        this.client.injectRoomEvent({ ...data, event: relayed.event, payload: relayed.payload });
+    };
+
+    private handlePeerMessage = (message: PeerMessage) => {
+        // Only room events for rooms we are in; anything else is the app's own peer traffic
+        if (!message.roomId || !this.client.getJoinedRooms().includes(message.roomId)) return;
+        if (message.id && !this.remember(message.id)) return;
+        this.client.injectRoomEvent({
+            roomId: message.roomId,
+            from: message.from,
+            event: message.event,
+            payload: message.payload,
+            ts: message.ts,
+        });
+    };
+}
@@ -0,0 +1,583 @@
+import type { SocketClient } from './SocketClient';
+import type { EntityUpdateMeta, EntityUpdateSource } from './EntityManager';
+import { SnapshotBuffer } from '../logic/snapshotBuffer';
+import { PredictionBuffer, StepFunction, StateError } from '../logic/prediction';
+import { DeltaEncoder, DeltaDecoder, EntityUpdatePayload } from '../logic/delta';
+import { electOldestMember } from '../logic/election';
+import { Delivery, Member } from '../types';
+
+/**
+ * What happens to an entity when its owner leaves the room.
+ * - `despawn`: the entity is removed on every client.
+ * - `freeze`: the entity keeps its last state and becomes unowned, so anyone can claim it.
+ * - `handoff-oldest`: ownership moves to the longest-standing remaining member.
+ * - `handoff-admin`: ownership moves to the oldest remaining admin (or the oldest member if there is none).
+ */
+export type OwnerLeavePolicy = 'despawn' | 'freeze' | 'handoff-oldest' | 'handoff-admin';
+
+/**
+ * Configuration of a synchronized entity. Everything but `initialState` can be changed later with `configure`.
+ */
+export interface NetworkEntityOptions<T, I = any> {
+    initialState: T;
+    type?: string; // Set for entities created with `spawnEntity`
+    schema?: string; // Binary schema its updates are encoded with. Defaults to `type`.
+    roomId?: string; // Room the entity is broadcast to ('' while not in a room)
+    isOwner?: boolean; // If true, we claim ownership and broadcast updates. Switching back to false releases it.
+    allowTransfer?: boolean | ((requesterId: string) => boolean); // Whether we hand the entity over when another client requests it
+    broadcastRate?: number; // ms between updates on the shared network tick
+    enableInterpolation?: boolean;
+    interpolationDelay?: number; // ms to render remote entities in the past
+    maxExtrapolation?: number; // ms we may extrapolate when no newer snapshot has arrived
+    authoritative?: boolean; // If true, the server owns the simulation and the owner sends inputs instead of state
+    step?: StepFunction<T, I>; // Applies one input to a state (required for authoritative owners)
+    deltaCompression?: boolean; // If true, only changed fields are sent between keyframes
+    keyframeInterval?: number; // ms between full-state updates
+    delivery?: Delivery; // 'unreliable' suits positions: no acks, full states, late packets dropped. Default 'reliable'.
+    ownerLeavePolicy?: OwnerLeavePolicy; // Default 'freeze'
+    onOwnerLeave?: (userId: string) => void;
+    onHandoff?: (newOwner: string) => void;
+    onFreeze?: () => void;
+    onDespawn?: () => void;
+}
+
+type LifecycleCallbacks = Pick<NetworkEntityOptions<any>, 'onOwnerLeave' | 'onHandoff' | 'onFreeze' | 'onDespawn'>;
+
+/**
+ * Payload of `entity:state` events sent by an authoritative server.
+ */
+export interface AuthoritativeState<T> {
+    entityId: string;
+    state: T;
+    lastProcessedSeq: number;
+}
+
+export type OwnershipChangeReason = 'claim' | 'transfer' | 'release' | 'force';
+
+/**
+ * Payload of `entity:ownership` events. `version` increases with every change so all clients
+ * converge on the same owner; equal versions (two simultaneous claims) go to the lower userId.
+ */
+export interface OwnershipAnnouncement {
+    entityId: string;
+    owner: string | null;
+    version: number;
+    reason: OwnershipChangeReason;
+}
+
+type EntityListener<T> = (state: T) => void;
+type OwnerListener = (owner: string | null, reason: OwnershipChangeReason) => void;
+type AdminCheck = (roomId: string, userId: string) => boolean;
+
+// An update this close behind the newest one is a late packet; further behind, the sender started over
+const STALE_WINDOW = 32;
+
+// Claims of the same version this soon after the current owner's claim count as simultaneous
+const CLAIM_TIE_WINDOW = 2000;
+
+/**
+ * One synchronized entity, held in plain objects so game loops can read it without React.
+ * Owned entities feed the EntityManager tick; remote entities buffer snapshots and are
+ * interpolated lazily whenever `getState` is called.
+ *
+ * Every entity has at most one owner (a userId). Only the owner's updates are applied; others can
+ * request ownership, the owner can transfer or release it, and room admins can force a transfer.
+ */
+export class NetworkEntity<T extends Record<string, any> = Record<string, any>, I = any> implements EntityUpdateSource {
+    public readonly entityId: string;
+    public type: string | null = null;
+    public schema: string | null = null;
+    public roomId: string = '';
+    public rate: number = 100;
+    public delivery: Delivery = 'reliable';
+    public reconciliationError: StateError<T> = {};
+    public owner: string | null = null;
+    public ownerVersion = 0;
+    private claimedAt: number | null = null; // When the current owner claimed the entity, while a tie is still possible
+    public ownerLeavePolicy: OwnerLeavePolicy = 'freeze';
+    public frozen = false;
+    public despawned = false;
+
+    private client: SocketClient;
+    private isAdmin: AdminCheck;
+    private wantsOwnership = false;
+    private allowTransfer: boolean | ((requesterId: string) => boolean) = true;
+    private pendingRequest: { resolve: (granted: boolean) => void; timer: ReturnType<typeof setTimeout> } | null = null;
+    private state: T;
+    private dirty = false;
+    private keyframeInterval = 2000;
+    private lastFullSendAt = -Infinity;
+    private fullSeq = 0;
+    private lastReceived: { from: string; seq: number } | null = null;
+    private enableInterpolation = true;
+    private authoritative = false;
+    private deltaCompression = true;
+    private step?: StepFunction<T, I>;
+
+    private buffer: SnapshotBuffer<T>;
+    private encoder: DeltaEncoder<T>;
+    private decoder: DeltaDecoder<T> = new DeltaDecoder<T>();
+    private prediction: PredictionBuffer<T, I> | null = null;
+    private listeners: Set<EntityListener<T>> = new Set();
+    private ownerListeners: Set<OwnerListener> = new Set();
+    private callbacks: LifecycleCallbacks = {};
+
+    constructor(client: SocketClient, entityId: string, options: NetworkEntityOptions<T, I>, isAdmin: AdminCheck = () => false) {
+        this.client = client;
+        this.isAdmin = isAdmin;
+        this.entityId = entityId;
+        this.state = options.initialState;
+        this.buffer = new SnapshotBuffer<T>();
+        this.encoder = new DeltaEncoder<T>();
+        this.configure(options);
+    }
+
+    public configure(options: Partial<NetworkEntityOptions<T, I>>) {
+        const wasPredicting = this.predicting;
+
+        if (options.roomId !== undefined && options.roomId !== this.roomId) {
+            this.roomId = options.roomId;
+            this.resetNetwork();
+            // Let the new room know who drives this entity
+            if (this.isOwner) this.announce(this.owner, 'claim', this.ownerVersion);
+        }
+        if (options.type !== undefined) this.type = options.type;
+        if (options.schema !== undefined) this.schema = options.schema;
+        if (options.allowTransfer !== undefined) this.allowTransfer = options.allowTransfer;
+        if (options.ownerLeavePolicy !== undefined) this.ownerLeavePolicy = options.ownerLeavePolicy;
+        if ('onOwnerLeave' in options) this.callbacks.onOwnerLeave = options.onOwnerLeave;
+        if ('onHandoff' in options) this.callbacks.onHandoff = options.onHandoff;
+        if ('onFreeze' in options) this.callbacks.onFreeze = options.onFreeze;
+        if ('onDespawn' in options) this.callbacks.onDespawn = options.onDespawn;
+        if (options.authoritative !== undefined) this.authoritative = options.authoritative;
+        if (options.enableInterpolation !== undefined) this.enableInterpolation = options.enableInterpolation;
+        if (options.deltaCompression !== undefined) this.deltaCompression = options.deltaCompression;
+        if (options.step !== undefined) this.step = options.step;
+
+        if (options.broadcastRate !== undefined) {
+            this.rate = options.broadcastRate;
+            // Default delay follows the broadcast rate unless set explicitly
+            if (options.interpolationDelay === undefined) {
+                this.buffer.configure({ interpolationDelay: options.broadcastRate * 2 });
+            }
+        }
+        this.buffer.configure({
+            interpolationDelay: options.interpolationDelay,
+            maxExtrapolation: options.maxExtrapolation,
+        });
+        this.encoder.configure({ keyframeInterval: options.keyframeInterval });
+        if (options.keyframeInterval !== undefined) this.keyframeInterval = options.keyframeInterval;
+        if (options.delivery !== undefined) this.delivery = options.delivery;
+
+        if (options.isOwner !== undefined && options.isOwner !== this.wantsOwnership) {
+            this.wantsOwnership = options.isOwner;
+            if (options.isOwner) {
+                this.claimOwnership();
+            } else if (this.isOwner) {
+                this.releaseOwnership();
+            }
+        }
+
+        if (wasPredicting !== this.predicting || options.step !== undefined) {
+            this.syncPrediction(wasPredicting);
+        }
+    }
+
+    public get isOwner(): boolean {
+        return this.owner !== null && this.owner === this.client.getUserId();
+    }
+
+    // (Re)start prediction from the current state when we become an authoritative owner
+    private syncPrediction(wasPredicting: boolean) {
+        if (!this.predicting) {
+            this.prediction = null;
+        } else if (!this.step) {
+            console.warn(`NetworkEntity(${this.entityId}): authoritative owners need a step function`);
+        } else if (this.prediction && wasPredicting) {
+            this.prediction.setStep(this.step);
+        } else {
+            this.prediction = new PredictionBuffer<T, I>(this.state, this.step);
+        }
+    }
+
+    public get predicting(): boolean {
+        return this.isOwner && this.authoritative;
+    }
+
+    /**
+     * Returns the state to render now. Remote entities are interpolated from the snapshot buffer.
+     */
+    public getState(now: number = Date.now()): T {
+        if (this.isOwner || !this.enableInterpolation) return this.state;
+
+        // Snapshots are stamped by the server, so prefer the synced server clock
+        const remoteNow = this.client.getClockStats().synced
+            ? this.client.serverNow()
+            : this.buffer.toRemoteTime(now);
+        return this.buffer.sample(remoteNow) ?? this.state;
+    }
+
+    /**
+     * Updates the local state. Works like React setState; owners broadcast it on the next tick.
+     */
+    public setState(next: T | ((prev: T) => T)) {
+        const resolved = typeof next === 'function' ? (next as (prev: T) => T)(this.state) : next;
+        this.state = resolved;
+        if (this.isOwner) this.dirty = true;
+        this.notify();
+    }
+
+    /**
+     * Predicts an input locally and sends it as a sequenced `entity:input` (authoritative owners only).
+     */
+    public sendInput(input: I) {
+        if (!this.prediction || !this.roomId) return;
+
+        const { seq, state } = this.prediction.applyInput(input);
+        this.state = state;
+        this.notify();
+        this.client.emitToRoom(this.roomId, 'entity:input', { entityId: this.entityId, seq, input })
+            .catch(err => console.warn('Failed to send input:', err));
+    }
+
+    public onChange(listener: EntityListener<T>): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    public onOwnerChange(listener: OwnerListener): () => void {
+        this.ownerListeners.add(listener);
+        return () => {
+            this.ownerListeners.delete(listener);
+        };
+    }
+
+    // Ownership
+    /**
+     * Takes ownership of an unowned entity. If someone else already owns it, asks them instead.
+     */
+    public claimOwnership() {
+        const me = this.client.getUserId();
+        if (!me || this.owner === me) return;
+        if (this.owner !== null) {
+            this.requestOwnership();
+            return;
+        }
+        this.announce(me, 'claim');
+    }
+
+    /**
+     * Asks the current owner for the entity. Unowned entities are claimed right away.
+     * @returns Resolves true once we own the entity, false if the owner denies or doesn't answer in time.
+     */
+    public requestOwnership(timeout: number = 3000): Promise<boolean> {
+        const me = this.client.getUserId();
+        if (!me) return Promise.resolve(false);
+        if (this.owner === me) return Promise.resolve(true);
+        if (this.owner === null) {
+            this.announce(me, 'claim');
+            return Promise.resolve(true);
+        }
+        if (!this.roomId) return Promise.resolve(false);
+
+        this.settleRequest(false);
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.settleRequest(false), timeout);
+            this.pendingRequest = { resolve, timer };
+            this.client.emitToRoom(this.roomId, 'entity:ownership:request', { entityId: this.entityId })
+                .catch(() => this.settleRequest(false));
+        });
+    }
+
+    public releaseOwnership() {
+        if (!this.isOwner) return;
+        this.announce(null, 'release');
+    }
+
+    /**
+     * Hands the entity to another member. Only the owner or a room admin (forced transfer) may do this.
+     * @returns False if we are not allowed to transfer the entity.
+     */
+    public transferOwnership(userId: string): boolean {
+        if (this.isOwner) {
+            this.announce(userId, 'transfer');
+            return true;
+        }
+        const me = this.client.getUserId();
+        if (me && this.roomId && this.isAdmin(this.roomId, me)) {
+            this.announce(userId, 'force');
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Handles an `entity:ownership` announcement from another client.
+     */
+    public handleOwnership(announcement: OwnershipAnnouncement, from: string) {
+        const { owner, version, reason } = announcement;
+
+        switch (reason) {
+            case 'force':
+                if (!this.isAdmin(this.roomId, from)) {
+                    console.warn(`Ignoring forced ownership change of ${this.entityId} from non-admin ${from}`);
+                    return;
+                }
+                if (version <= this.ownerVersion) return;
+                break;
+            case 'transfer':
+            case 'release':
+                // Only the owner can give the entity away (an unknown owner is trusted, e.g. right after joining)
+                if (this.owner !== null && from !== this.owner) return;
+                if (version <= this.ownerVersion) return;
+                break;
+            case 'claim':
+                if (!this.acceptsClaim(owner, version, from)) return;
+                break;
+        }
+
+        this.setOwner(owner, version, reason);
+    }
+
+    /**
+     * Adopts ownership from a trusted source (a spawn message or world snapshot) without validation.
+     */
+    public restoreOwnership(owner: string | null, version: number) {
+        if (version < this.ownerVersion) return;
+        this.setOwner(owner, version, owner === null ? 'release' : 'claim');
+        // Settled ownership, not a claim another one could tie with
+        this.claimedAt = null;
+    }
+
+    /**
+     * Handles an `entity:ownership:request` from another client. Only the owner answers.
+     */
+    public handleOwnershipRequest(requesterId: string) {
+        if (!this.isOwner || requesterId === this.owner) return;
+
+        const allowed = typeof this.allowTransfer === 'function' ? this.allowTransfer(requesterId) : this.allowTransfer;
+        if (allowed) {
+            this.announce(requesterId, 'transfer');
+        } else if (this.roomId) {
+            this.client.emitToRoom(this.roomId, 'entity:ownership:denied', { entityId: this.entityId, requesterId })
+                .catch(err => console.warn('Failed to deny ownership request:', err));
+        }
+    }
+
+    public handleOwnershipDenied(requesterId: string) {
+        if (requesterId === this.client.getUserId()) this.settleRequest(false);
+    }
+
+    /**
+     * Applies the owner-leave policy. Every client runs this on the same member list, so they all
+     * reach the same outcome without extra messages.
+     * @param userId The member who left.
+     * @param remaining Members still in the room.
+     * @param admins Extra admin userIds (`Room.admins`).
+     */
+    public handleOwnerLeft(userId: string, remaining: Member[], admins: string[] = []) {
+        if (this.owner !== userId) return;
+        this.callbacks.onOwnerLeave?.(userId);
+
+        if (this.ownerLeavePolicy === 'despawn') {
+            this.despawn();
+            return;
+        }
+
+        if (this.ownerLeavePolicy === 'handoff-oldest' || this.ownerLeavePolicy === 'handoff-admin') {
+            const successor = electOldestMember(remaining, {
+                exclude: [userId],
+                preferAdmins: this.ownerLeavePolicy === 'handoff-admin',
+                admins,
+            });
+            if (successor) {
+                this.setOwner(successor.userId, this.ownerVersion + 1, 'transfer');
+                this.callbacks.onHandoff?.(successor.userId);
+                return;
+            }
+        }
+
+        // Freeze (also the fallback when nobody is left to hand off to)
+        this.setOwner(null, this.ownerVersion + 1, 'release');
+        this.frozen = true;
+        this.buffer.clear();
+        this.callbacks.onFreeze?.();
+    }
+
+    /**
+     * Marks the entity as gone and stops it from sending. The registry drops it afterwards.
+     */
+    public despawn() {
+        if (this.despawned) return;
+        this.despawned = true;
+        this.state = this.getState();
+        this.settleRequest(false);
+        this.callbacks.onDespawn?.();
+        this.notify();
+    }
+
+    // Claims don't need permission, but only the claimer can claim for itself, and only a newer version replaces
+    // the current owner. Two claims of the same version made at once on an unowned entity go to the lower userId.
+    private acceptsClaim(owner: string | null, version: number, from: string): boolean {
+        if (owner === null || owner !== from) return false;
+        if (version !== this.ownerVersion) return version > this.ownerVersion;
+        if (owner === this.owner) return true; // The owner repeating itself
+        const simultaneous = this.owner !== null && this.claimedAt !== null && Date.now() - this.claimedAt < CLAIM_TIE_WINDOW;
+        return simultaneous && owner < this.owner!;
+    }
+
+    private announce(owner: string | null, reason: OwnershipChangeReason, version: number = this.ownerVersion + 1) {
+        this.setOwner(owner, version, reason);
+        if (!this.roomId) return;
+
+        const announcement: OwnershipAnnouncement = { entityId: this.entityId, owner, version, reason };
+        this.client.emitToRoom(this.roomId, 'entity:ownership', announcement)
+            .catch(err => console.warn('Failed to announce ownership:', err));
+    }
+
+    private setOwner(owner: string | null, version: number, reason: OwnershipChangeReason) {
+        this.ownerVersion = version;
+        if (owner === this.owner) return;
+
+        const wasOwner = this.isOwner;
+        const wasPredicting = this.predicting;
+        // Freeze whatever we were showing so the switch doesn't jump
+        this.state = this.getState();
+        this.owner = owner;
+        this.claimedAt = reason === 'claim' && owner !== null ? Date.now() : null;
+
+        if (wasOwner !== this.isOwner) {
+            // Switching sides invalidates buffered snapshots and baselines
+            this.resetNetwork();
+            if (wasOwner && this.wantsOwnership && reason === 'claim') {
+                console.warn(`Ownership conflict on ${this.entityId}: ${owner} keeps it`);
+            }
+            this.syncPrediction(wasPredicting);
+        }
+        if (owner !== null) this.frozen = false;
+        if (this.isOwner) {
+            this.dirty = true;
+            this.settleRequest(true);
+        }
+        this.ownerListeners.forEach(cb => cb(owner, reason));
+    }
+
+    private settleRequest(granted: boolean) {
+        if (!this.pendingRequest) return;
+        clearTimeout(this.pendingRequest.timer);
+        this.pendingRequest.resolve(granted);
+        this.pendingRequest = null;
+    }
+
+    /**
+     * Handles an incoming `entity:update` for this entity.
+     */
+    public receive(update: EntityUpdatePayload<T>, meta: EntityUpdateMeta) {
+        // Keyframes carry ownership so late joiners learn who drives the entity
+        if (update.owner !== undefined && update.ownerVersion !== undefined && update.owner === meta.from) {
+            this.handleOwnership({ entityId: this.entityId, owner: update.owner, version: update.ownerVersion, reason: 'claim' }, meta.from);
+        }
+        if (this.isOwner) return;
+        // Only the owner (or an authoritative server) may drive the entity
+        if (this.owner !== null && meta.from !== this.owner && meta.from !== 'server') return;
+
+        // Unordered delivery: skip updates older than one already applied
+        if (update.seq !== undefined && this.lastReceived?.from === meta.from) {
+            const behind = this.lastReceived.seq - update.seq;
+            if (behind >= 0 && behind < STALE_WINDOW) return;
+        }
+
+        // Deltas against an unknown baseline wait for the next keyframe
+        const remoteState = this.decoder.decode(update);
+        if (!remoteState) return;
+        if (update.seq !== undefined) this.lastReceived = { from: meta.from, seq: update.seq };
+
+        this.state = remoteState;
+        if (this.enableInterpolation) {
+            // Stamp with the sender's time so uneven arrival doesn't distort playback
+            this.buffer.push(remoteState, meta.ts);
+        } else {
+            this.notify();
+        }
+    }
+
+    /**
+     * Handles an `entity:state` from an authoritative server.
+     */
+    public receiveAuthoritative(payload: AuthoritativeState<T>, meta: EntityUpdateMeta) {
+        if (this.prediction) {
+            const { state, error } = this.prediction.reconcile(payload.state, payload.lastProcessedSeq);
+            this.state = state;
+            this.reconciliationError = error;
+            this.notify();
+        } else if (!this.isOwner) {
+            this.receive(payload, meta);
+        }
+    }
+
+    // EntityUpdateSource: polled by the EntityManager tick
+    public collect(now: number): EntityUpdatePayload<T> | null {
+        const payload = this.collectUpdate(now);
+        // Tells binary serializers which schema to encode the state with
+        const schema = this.schema ?? this.type;
+        if (payload && schema) payload.type = schema;
+        return payload;
+    }
+
+    private collectUpdate(now: number): EntityUpdatePayload<T> | null {
+        // The server broadcasts authoritative entities itself
+        if (!this.isOwner || this.authoritative || !this.roomId || this.despawned) return null;
+
+        // Unreliable updates are never acknowledged, so there is no baseline to diff against. Full states are
+        // repeated every keyframe interval so a dropped last update doesn't leave the others behind.
+        if (this.delivery === 'unreliable') {
+            if (!this.dirty && now - this.lastFullSendAt < this.keyframeInterval) return null;
+            this.dirty = false;
+            this.lastFullSendAt = now;
+            const payload: EntityUpdatePayload<T> = { entityId: this.entityId, seq: ++this.fullSeq, state: this.state };
+            if (this.owner) {
+                payload.owner = this.owner;
+                payload.ownerVersion = this.ownerVersion;
+            }
+            return payload;
+        }
+
+        if (!this.deltaCompression) {
+            if (!this.dirty) return null;
+            // Clear to save bandwidth if static.
+            this.dirty = false;
+            return { entityId: this.entityId, state: this.state };
+        }
+
+        // Static entities still send periodic keyframes so late joiners pick them up
+        if (!this.dirty && !this.encoder.isKeyframeDue(now)) return null;
+        this.dirty = false;
+        const payload = this.encoder.encode(this.entityId, this.state, now);
+        if (payload?.state && this.owner) {
+            payload.owner = this.owner;
+            payload.ownerVersion = this.ownerVersion;
+        }
+        return payload;
+    }
+
+    public onAck(update: EntityUpdatePayload<T>) {
+        if (update.seq !== undefined) this.encoder.acknowledge(update.seq);
+    }
+
+    /**
+     * Drops buffered snapshots and delta baselines, e.g. after a reconnect.
+     */
+    public resetNetwork() {
+        this.buffer.clear();
+        this.decoder.reset();
+        this.encoder.reset();
+        this.lastReceived = null;
+        this.lastFullSendAt = -Infinity;
+    }
+
+    private notify() {
+        this.listeners.forEach(cb => cb(this.state));
+    }
+}
@@ -0,0 +1,380 @@
+import { SocketClient } from './SocketClient';
+import { NetworkEntity, NetworkEntityOptions, AuthoritativeState, OwnershipAnnouncement, OwnerLeavePolicy } from './NetworkEntity';
+import { CustomEvent, PresenceEvent, Room } from '../types';
+import { electOldestMember } from '../logic/election';
+
+/**
+ * Payload of `entity:spawn` events, and one entry of a `world:full` snapshot.
+ */
+export interface EntitySpawnPayload<T = any> {
+    entityId: string;
+    type: string;
+    state: T;
+    owner: string | null;
+    ownerVersion: number;
+    ownerLeavePolicy?: OwnerLeavePolicy;
+}
+
+/**
+ * Payload of `world:full`: every spawned entity in the room, sent to late joiners.
+ */
+export interface WorldFullSnapshot {
+    entities: EntitySpawnPayload[];
+}
+
+export interface SpawnOptions<T, I = any> extends Partial<Omit<NetworkEntityOptions<T, I>, 'initialState' | 'type' | 'isOwner'>> {
+    roomId: string;
+    entityId?: string;
+}
+
+interface RegistryRecord {
+    entity: NetworkEntity<any, any>;
+    refs: number;
+    pinned: boolean; // Spawned entities live until despawned, even with no hook mounted
+    unsubscribe: () => void;
+    unsubscribeOwner: () => void;
+    removeSource: (() => void) | null;
+}
+
+type RegistryListener = () => void;
+
+// The same entity id in two rooms is two entities
+const recordKey = (roomId: string, entityId: string) => `${roomId}:${entityId}`;
+
+/**
+ * Framework-agnostic store of synchronized entities.
+ * Game loops (Phaser, PixiJS, raw canvas) register entities and read their interpolated state by room and id;
+ * the React hooks are a thin layer on top of it.
+ * Entities registered without a room are stored under the room '' and receive updates from every room.
+ *
+ * @example
+ * const registry = NetworkEntityRegistry.getInstance();
+ * registry.register('ball', { initialState: { x: 0, y: 0 }, roomId: 'lobby' });
+ * // In the game loop:
+ * const { x, y } = registry.getState('lobby', 'ball');
+ */
+export class NetworkEntityRegistry {
+    private static instance: NetworkEntityRegistry;
+    private client: SocketClient;
+    private records: Map<string, RegistryRecord> = new Map(); // By `${roomId}:${entityId}`
+    private listeners: Set<RegistryListener> = new Set();
+    // Rooms we are in, used to check admin rights for forced ownership transfers
+    private rooms: Map<string, Room> = new Map();
+
+    private constructor(client: SocketClient) {
+        this.client = client;
+
+        // Entities belong to one room: messages about the same id from another room are not for them
+        this.client.on('entity:state', (data: CustomEvent<AuthoritativeState<any>>) => {
+            const entity = this.getInRoom(data.payload?.entityId, data.roomId);
+            entity?.receiveAuthoritative(data.payload, { roomId: data.roomId, from: data.from, ts: data.ts ?? Date.now() });
+        });
+
+        this.client.on('entity:ownership', (data: CustomEvent<OwnershipAnnouncement>) => {
+            this.getInRoom(data.payload?.entityId, data.roomId)?.handleOwnership(data.payload, data.from);
+        });
+
+        this.client.on('entity:ownership:request', (data: CustomEvent<{ entityId: string }>) => {
+            this.getInRoom(data.payload?.entityId, data.roomId)?.handleOwnershipRequest(data.from);
+        });
+
+        this.client.on('entity:ownership:denied', (data: CustomEvent<{ entityId: string; requesterId: string }>) => {
+            this.getInRoom(data.payload?.entityId, data.roomId)?.handleOwnershipDenied(data.payload.requesterId);
+        });
+
+        this.client.on('room:presence', this.handlePresence);
+
+        this.client.on('entity:spawn', (data: CustomEvent<EntitySpawnPayload>) => {
+            if (data.payload?.entityId) this.adopt(data.payload, data.roomId);
+        });
+
+        this.client.on('entity:despawn', (data: CustomEvent<{ entityId: string }>) => {
+            const entity = this.getInRoom(data.payload?.entityId, data.roomId);
+            if (!entity) return;
+            // Only the owner or an admin may remove an owned entity
+            if (entity.owner !== null && entity.owner !== data.from && !this.isAdmin(entity.roomId, data.from)) return;
+            this.drop(recordKey(entity.roomId, entity.entityId));
+        });
+
+        this.client.on('world:full', (data: CustomEvent<WorldFullSnapshot>) => {
+            data.payload?.entities?.forEach(spawn => this.adopt(spawn, data.roomId));
+        });
+
+        // Baselines don't survive a reconnect
+        this.client.on('connect', () => {
+            this.records.forEach(record => record.entity.resetNetwork());
+        });
+    }
+
+    public static getInstance(): NetworkEntityRegistry {
+        if (!NetworkEntityRegistry.instance) {
+            NetworkEntityRegistry.instance = new NetworkEntityRegistry(SocketClient.getInstance());
+        }
+        return NetworkEntityRegistry.instance;
+    }
+
+    /**
+     * Registers an entity in `options.roomId`, or returns the existing one (reference counted).
+     * Call `release` once for every `register`.
+     */
+    public register<T extends Record<string, any>, I = any>(entityId: string, options: NetworkEntityOptions<T, I>): NetworkEntity<T, I> {
+        const roomId = options.roomId ?? '';
+        const existing = this.records.get(recordKey(roomId, entityId));
+        if (existing) {
+            existing.refs++;
+            this.configure(roomId, entityId, options);
+            return existing.entity as NetworkEntity<T, I>;
+        }
+
+        return this.create<T, I>(entityId, options, 1, false);
+    }
+
+    private create<T extends Record<string, any>, I = any>(entityId: string, options: NetworkEntityOptions<T, I>, refs: number, pinned: boolean): NetworkEntity<T, I> {
+        const entity = new NetworkEntity<T, I>(this.client, entityId, options, this.isAdmin);
+        const record: RegistryRecord = {
+            entity,
+            refs,
+            pinned,
+            unsubscribe: this.client.entities.subscribe(entity.roomId, entityId, (update, meta) => {
+                if (this.belongsTo(entity, meta.roomId)) entity.receive(update, meta);
+            }),
+            // Only the owner feeds the network tick
+            unsubscribeOwner: entity.onOwnerChange(() => this.syncSource(record)),
+            removeSource: null,
+        };
+        this.records.set(recordKey(entity.roomId, entityId), record);
+        this.syncSource(record);
+        this.notify();
+        return entity;
+    }
+
+    public release(roomId: string, entityId: string) {
+        const key = recordKey(roomId, entityId);
+        const record = this.records.get(key);
+        if (!record) return;
+        record.refs = Math.max(0, record.refs - 1);
+        if (record.refs > 0 || record.pinned) return;
+
+        record.unsubscribe();
+        record.unsubscribeOwner();
+        record.removeSource?.();
+        this.records.delete(key);
+        this.notify();
+    }
+
+    /**
+     * Changes an entity's options. Its room is fixed: register it again to use it in another room.
+     */
+    public configure<T extends Record<string, any>, I = any>(roomId: string, entityId: string, options: Partial<NetworkEntityOptions<T, I>>) {
+        const record = this.records.get(recordKey(roomId, entityId));
+        if (!record) return;
+        record.entity.configure({ ...options, roomId: undefined });
+        this.syncSource(record);
+    }
+
+    public get<T extends Record<string, any> = Record<string, any>, I = any>(roomId: string, entityId: string): NetworkEntity<T, I> | undefined {
+        return this.records.get(recordKey(roomId, entityId))?.entity as NetworkEntity<T, I> | undefined;
+    }
+
+    /**
+     * Current (interpolated) state of an entity, or undefined if it isn't registered.
+     */
+    public getState<T extends Record<string, any> = Record<string, any>>(roomId: string, entityId: string, now?: number): T | undefined {
+        return this.get<T>(roomId, entityId)?.getState(now);
+    }
+
+    public setState<T extends Record<string, any>>(roomId: string, entityId: string, next: T | ((prev: T) => T)) {
+        this.get<T>(roomId, entityId)?.setState(next);
+    }
+
+    public getAll(): NetworkEntity<any, any>[] {
+        return Array.from(this.records.values()).map(r => r.entity);
+    }
+
+    /**
+     * Live spawned entities, optionally of a single type.
+     */
+    public getEntities(type?: string, roomId?: string): NetworkEntity<any, any>[] {
+        return this.getAll().filter(e => e.type !== null && (type === undefined || e.type === type) && (roomId === undefined || e.roomId === roomId));
+    }
+
+    // Spawn / Despawn
+    /**
+     * Creates an entity owned by us on every client in the room.
+     * Spawned entities stay in the registry until despawned, even if no hook is using them.
+     */
+    public spawnEntity<T extends Record<string, any>, I = any>(type: string, initialState: T, options: SpawnOptions<T, I>): NetworkEntity<T, I> {
+        const me = this.client.getUserId() ?? 'anonymous';
+        const { entityId = `${type}-${me}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`, ...rest } = options;
+
+        const entity = this.create<T, I>(entityId, { ...rest, initialState, type, isOwner: true }, 0, true);
+        const spawn: EntitySpawnPayload<T> = {
+            entityId,
+            type,
+            state: initialState,
+            owner: entity.owner,
+            ownerVersion: entity.ownerVersion,
+            ownerLeavePolicy: entity.ownerLeavePolicy,
+        };
+        this.client.emitToRoom(options.roomId, 'entity:spawn', spawn)
+            .catch(err => console.warn('Failed to spawn entity:', err));
+        return entity;
+    }
+
+    /**
+     * Removes a spawned entity on every client. Only the owner or a room admin may despawn an owned entity.
+     * @returns False if we are not allowed to despawn it.
+     */
+    public despawnEntity(roomId: string, entityId: string): boolean {
+        const entity = this.get(roomId, entityId);
+        if (!entity) return false;
+
+        const me = this.client.getUserId();
+        if (entity.owner !== null && !entity.isOwner && !(me && this.isAdmin(entity.roomId, me))) return false;
+
+        if (entity.roomId) {
+            this.client.emitToRoom(entity.roomId, 'entity:despawn', { entityId })
+                .catch(err => console.warn('Failed to despawn entity:', err));
+        }
+        this.drop(recordKey(roomId, entityId));
+        return true;
+    }
+
+    /**
+     * Builds the `world:full` snapshot of every spawned entity in a room.
+     */
+    public getWorldSnapshot(roomId: string): WorldFullSnapshot {
+        return {
+            entities: this.getEntities(undefined, roomId)
+                .map(e => ({
+                    entityId: e.entityId,
+                    type: e.type!,
+                    state: e.getState(),
+                    owner: e.owner,
+                    ownerVersion: e.ownerVersion,
+                    ownerLeavePolicy: e.ownerLeavePolicy,
+                })),
+        };
+    }
+
+    /**
+     * Keeps the registry's view of a room (members, admins) up to date. Pass null to forget it.
+     */
+    public setRoom(roomId: string, room: Room | null) {
+        if (room) {
+            this.rooms.set(roomId, room);
+        } else {
+            this.rooms.delete(roomId);
+        }
+    }
+
+    public isAdmin = (roomId: string, userId: string): boolean => {
+        const room = this.rooms.get(roomId);
+        if (!room) return false;
+        return room.admins?.includes(userId) || !!room.members?.find(m => m.userId === userId)?.isAdmin;
+    };
+
+    /**
+     * Subscribes to entities being added or removed.
+     */
+    public subscribe(listener: RegistryListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Creates a spawned entity announced by someone else (spawn message or world snapshot)
+    private adopt(spawn: EntitySpawnPayload, roomId: string) {
+        const existing = this.records.get(recordKey(roomId, spawn.entityId));
+        if (existing) {
+            existing.pinned = true;
+            existing.entity.configure({ type: spawn.type });
+            existing.entity.restoreOwnership(spawn.owner, spawn.ownerVersion);
+            return;
+        }
+
+        const entity = this.create(spawn.entityId, {
+            initialState: spawn.state,
+            type: spawn.type,
+            roomId,
+            ownerLeavePolicy: spawn.ownerLeavePolicy,
+        }, 0, true);
+        entity.restoreOwnership(spawn.owner, spawn.ownerVersion);
+    }
+
+    private belongsTo(entity: NetworkEntity<any, any>, roomId: string): boolean {
+        // Entities registered before joining a room have no room yet and accept any
+        return !entity.roomId || entity.roomId === roomId;
+    }
+
+    private getInRoom(entityId: string | undefined, roomId: string): NetworkEntity<any, any> | undefined {
+        if (!entityId) return undefined;
+        const entity = this.get(roomId, entityId) ?? this.get('', entityId);
+        return entity && this.belongsTo(entity, roomId) ? entity : undefined;
+    }
+
+    /**
+     * Removes an entity from the registry for good, regardless of how many hooks hold it.
+     */
+    private drop(key: string) {
+        const record = this.records.get(key);
+        if (!record) return;
+        record.entity.despawn();
+        record.unsubscribe();
+        record.unsubscribeOwner();
+        record.removeSource?.();
+        this.records.delete(key);
+        this.notify();
+    }
+
+    // Keep our view of the room current and apply owner-leave policies
+    private handlePresence = (data: PresenceEvent) => {
+        const room = this.rooms.get(data.roomId);
+        if (!room) return;
+
+        if (data.event === 'join') {
+            if (room.members.find(m => m.userId === data.userId)) return;
+
+            // The longest-standing member brings the newcomer up to date
+            const responder = electOldestMember(room.members);
+            if (responder && responder.userId === this.client.getUserId()) {
+                const snapshot = this.getWorldSnapshot(data.roomId);
+                if (snapshot.entities.length > 0) {
+                    this.client.emitToRoom(data.roomId, 'world:full', snapshot)
+                        .catch(err => console.warn('Failed to send world snapshot:', err));
+                }
+            }
+
+            const member = { userId: data.userId, socketId: '', isAdmin: data.isAdmin, joinedAt: data.ts ?? Date.now(), peerId: data.peerId };
+            this.rooms.set(data.roomId, { ...room, members: [...room.members, member] });
+            return;
+        }
+
+        const remaining = room.members.filter(m => m.userId !== data.userId);
+        this.rooms.set(data.roomId, { ...room, members: remaining });
+
+        this.records.forEach((record, key) => {
+            const { entity } = record;
+            if (entity.roomId !== data.roomId || entity.owner !== data.userId) return;
+            entity.handleOwnerLeft(data.userId, remaining, room.admins);
+            if (entity.despawned) this.drop(key);
+        });
+    };
+
+    // Only owned, non-authoritative entities feed the network tick
+    private syncSource(record: RegistryRecord) {
+        const { entity } = record;
+        const shouldSend = entity.isOwner && !entity.predicting;
+        if (shouldSend && !record.removeSource) {
+            record.removeSource = this.client.entities.addSource(entity);
+        } else if (!shouldSend && record.removeSource) {
+            record.removeSource();
+            record.removeSource = null;
+        }
+    }
+
+    private notify() {
+        this.listeners.forEach(cb => cb());
+    }
+}
@@ -0,0 +1,108 @@
+import { GameSocketError, NotConnectedError } from './errors';
+
+/**
+ * What happens to a room event sent while there is no connection:
+ * - `drop`: reject right away (nothing is queued)
+ * - `latest`: keep only the newest message per room, replacing older ones
+ * - `all`: keep every message, in order
+ */
+export type OutboxPolicy = 'drop' | 'latest' | 'all';
+
+export interface OutboxOptions {
+    defaultPolicy?: OutboxPolicy; // Default 'all'
+    policies?: Record<string, OutboxPolicy>; // Per event name
+    maxSize?: number; // Oldest messages are rejected past this. Default 500.
+}
+
+export interface QueuedMessage {
+    roomId: string;
+    event: string;
+    payload: any;
+    queuedAt: number;
+    resolve: (ok: boolean) => void;
+    reject: (reason: any) => void;
+}
+
+/**
+ * Outbound queue for room events sent while offline.
+ * SocketClient flushes a room's messages, in order, once it is back in that room.
+ */
+export class Outbox {
+    private queue: QueuedMessage[] = [];
+    private policies: Map<string, OutboxPolicy> = new Map([
+        // Entity state is resent on its own (keyframes on reconnect), stale batches are useless
+        ['world:snapshot', 'drop'],
+        ['entity:update', 'drop'],
+    ]);
+    private defaultPolicy: OutboxPolicy = 'all';
+    private maxSize = 500;
+
+    public configure(options: OutboxOptions) {
+        if (options.defaultPolicy !== undefined) this.defaultPolicy = options.defaultPolicy;
+        if (options.maxSize !== undefined) this.maxSize = options.maxSize;
+        if (options.policies) {
+            Object.entries(options.policies).forEach(([event, policy]) => this.policies.set(event, policy));
+        }
+    }
+
+    public setPolicy(event: string, policy: OutboxPolicy) {
+        this.policies.set(event, policy);
+    }
+
+    public getPolicy(event: string): OutboxPolicy {
+        return this.policies.get(event) ?? this.defaultPolicy;
+    }
+
+    /**
+     * Queues a message according to its event's policy.
+     * @returns A promise settled when the message is finally sent and acknowledged, or discarded.
+     */
+    public enqueue(roomId: string, event: string, payload: any): Promise<boolean> {
+        const policy = this.getPolicy(event);
+        if (policy === 'drop') return Promise.reject(new NotConnectedError());
+
+        return new Promise((resolve, reject) => {
+            if (policy === 'latest') {
+                const index = this.queue.findIndex(m => m.roomId === roomId && m.event === event);
+                if (index !== -1) {
+                    this.queue[index].reject(new GameSocketError('cancelled', 'Replaced by a newer message'));
+                    this.queue.splice(index, 1);
+                }
+            }
+
+            this.queue.push({ roomId, event, payload, queuedAt: Date.now(), resolve, reject });
+
+            while (this.queue.length > this.maxSize) {
+                this.queue.shift()?.reject(new GameSocketError('cancelled', 'Outbox full'));
+            }
+        });
+    }
+
+    /**
+     * Removes and returns the queued messages for a room, oldest first.
+     */
+    public take(roomId: string): QueuedMessage[] {
+        const taken = this.queue.filter(m => m.roomId === roomId);
+        this.queue = this.queue.filter(m => m.roomId !== roomId);
+        return taken;
+    }
+
+    /**
+     * Puts messages back at the front of the queue, e.g. when the connection dropped mid-flush.
+     */
+    public requeue(messages: QueuedMessage[]) {
+        this.queue = [...messages, ...this.queue];
+    }
+
+    /**
+     * Rejects and removes queued messages, for one room or all of them.
+     */
+    public clear(reason: GameSocketError, roomId?: string) {
+        const dropped = roomId ? this.take(roomId) : this.queue.splice(0);
+        dropped.forEach(m => m.reject(reason));
+    }
+
+    public get size(): number {
+        return this.queue.length;
+    }
+}
@@ -1,14 +1,87 @@
-import Peer, { DataConnection, MediaConnection } from 'peerjs';
+import Peer, { DataConnection, MediaConnection, PeerJSOption } from 'peerjs';
+import { PeerMessage, OutgoingPeerMessage, PeerConnectionEvent, PeerConfig, PeerStatus, PeerInfo, PeerChannelOptions, PeerSendOptions } from '../types';
+import { Serializer, SerializerOption, createSerializer, isBinary } from './serializers';
 
+type PeerCallback<T = any> = (data: T) => void;
+
+interface ChannelDefinition {
+    id: number;
+    options: PeerChannelOptions;
+}
+
+// Named channels are pre-negotiated: both ends derive the same stream id from the name, no signaling needed.
+// Ids start at 256 to stay clear of the ones PeerJS picks for its own channels.
+const channelId = (name: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < name.length; i++) {
+        hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return 256 + (hash % 768);
+};
+
+// Named channels carry strings or bytes, not objects: a message with a binary payload is sent as
+// [header length: 4 bytes][header JSON][payload bytes]
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const packFrame = (envelope: PeerMessage<Uint8Array>): ArrayBuffer => {
+    const header = textEncoder.encode(JSON.stringify({ ...envelope, payload: undefined }));
+    const frame = new Uint8Array(4 + header.length + envelope.payload.length);
+    new DataView(frame.buffer).setUint32(0, header.length, true);
+    frame.set(header, 4);
+    frame.set(envelope.payload, 4 + header.length);
+    return frame.buffer;
+};
+
+const unpackFrame = (buffer: ArrayBuffer): PeerMessage<Uint8Array> => {
+    const headerLength = new DataView(buffer).getUint32(0, true);
+    const header = JSON.parse(textDecoder.decode(new Uint8Array(buffer, 4, headerLength)));
+    return { ...header, payload: new Uint8Array(buffer, 4 + headerLength) };
+};
+
+// The PeerServer is expected next to the game server
+const peerConfigFromUrl = (url?: string): PeerConfig => {
+    if (!url) return {};
+    try {
+        const { hostname, port, protocol } = new URL(url, typeof window !== 'undefined' ? window.location.href : undefined);
+        const secure = protocol === 'https:' || protocol === 'wss:';
+        return { host: hostname, port: port ? Number(port) : secure ? 443 : 80, secure };
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Singleton managing the WebRTC (PeerJS) connections to the other members: one data connection per peer (full mesh),
+ * reliable and ordered, plus named channels with their own reliability (`defineChannel`; `unreliable` is built in).
+ * Listen with `on(event, cb)`: `message` for every message, the message's own event name, `peer:open` / `peer:close`,
+ * `call` for incoming media calls, `peer:state` when a connection's state changes and `status` for our link to the PeerServer.
+ * Call `configure` (done by GameSocketProvider's `connect`) then `ready()` to get our peer id.
+ */
 export class PeerClient {
     private static instance: PeerClient;
     public peer: Peer | null = null;
     public myPeerId: string | null = null;
+    private userId: string | null = null;
+    private config: PeerConfig | false = {};
+    private initializing: Promise<string> | null = null;
+    private failure: unknown = null; // Why the last `ready()` failed; not retried until `configure` is called again
+    private status: PeerStatus = 'idle';
 
     private connections: Map<string, DataConnection> = new Map();
     private calls: Map<string, MediaConnection> = new Map();
+    private peerUsers: Map<string, string> = new Map(); // peerId -> userId
+    private peerStates: Map<string, Pick<PeerInfo, 'state' | 'iceState'>> = new Map();
+    private listeners: Map<string, Set<PeerCallback>> = new Map();
+    private messageListeners: Map<string, Set<PeerCallback<PeerMessage>>> = new Map(); // Kept apart so peers can't raise our own events
+    private dialed: WeakSet<DataConnection> = new WeakSet(); // Connections we opened, as opposed to accepted
+    private channelDefinitions: Map<string, ChannelDefinition> = new Map();
+    private channels: Map<DataConnection, Map<string, RTCDataChannel>> = new Map();
+    private serializer: Serializer = createSerializer('json');
 
-    private constructor() { }
+    private constructor() {
+        this.defineChannel('unreliable', { ordered: false, maxRetransmits: 0 });
+    }
 
     public static getInstance(): PeerClient {
         if (!PeerClient.instance) {
@@ -17,82 +90,437 @@ export class PeerClient {
         return PeerClient.instance;
     }
 
-    public initialize(host: string, port: number, path: string = '/peerjs'): Promise<string> {
-        return new Promise((resolve, reject) => {
-            if (this.peer && !this.peer.destroyed) {
-                if (this.myPeerId) return resolve(this.myPeerId);
-            }
+    /**
+     * Sets the wire format of message payloads. GameSocketProvider shares the SocketClient's, so both use the same schemas.
+     */
+    public setSerializer(serializer: SerializerOption) {
+        this.serializer = createSerializer(serializer);
+    }
 
-            // @ts-ignore
-            this.peer = new Peer(undefined, {
-                host,
-                port,
-                path,
-                // debug: 3
-            });
+    public getSerializer(): Serializer {
+        return this.serializer;
+    }
+
+    /**
+     * Sets up PeerJS for the next `ready()`. Host, port and secure default to `serverUrl`'s.
+     * @param config false turns peer-to-peer off: `ready()` then resolves to null.
+     */
+    public configure(config: PeerConfig | false, serverUrl?: string) {
+        this.config = config === false ? false : { ...peerConfigFromUrl(serverUrl), ...config };
+        this.failure = null;
+    }
+
+    /**
+     * Initializes PeerJS with the configured setup, once.
+     * If that fails (no PeerServer, timeout), later calls reject straight away with the same error until `configure` is called again.
+     * @returns Our peer id, or null when peer-to-peer is turned off.
+     */
+    public ready(): Promise<string | null> {
+        if (this.config === false) return Promise.resolve(null);
+        if (this.failure) return Promise.reject(this.failure);
+        return this.initialize(this.config).catch(err => {
+            this.failure = err;
+            throw err;
+        });
+    }
 
-            this.peer.on('open', (id) => {
-                console.log('PeerJS Connected with ID:', id);
-                this.myPeerId = id;
-                resolve(id);
+    public initialize(config: PeerConfig): Promise<string>;
+    public initialize(host: string, port: number, path?: string): Promise<string>;
+    public initialize(hostOrConfig: string | PeerConfig, port?: number, path: string = '/peerjs'): Promise<string> {
+        if (this.peer && !this.peer.destroyed && this.myPeerId) return Promise.resolve(this.myPeerId);
+        if (this.initializing) return this.initializing;
+
+        const config: PeerConfig = typeof hostOrConfig === 'string' ? { host: hostOrConfig, port, path } : hostOrConfig;
+        const id = typeof config.id === 'function' ? config.id(this.userId ?? '') : config.id;
+        this.setStatus('connecting');
+
+        this.initializing = new Promise<string>((resolve, reject) => {
+            const options: PeerJSOption = {
+                host: config.host,
+                port: config.port,
+                path: config.path ?? '/peerjs',
+                secure: config.secure,
+                key: config.key,
+                debug: config.debug,
+                ...(config.iceServers && { config: { iceServers: config.iceServers } }),
+            };
+            const peer = id ? new Peer(id, options) : new Peer(options);
+            this.peer = peer;
+
+            const timer = setTimeout(() => fail(new Error('PeerJS server did not respond')), config.timeout ?? 10000);
+            const fail = (err: unknown) => {
+                clearTimeout(timer);
+                if (this.peer === peer) {
+                    this.peer = null;
+                    this.initializing = null;
+                    this.setStatus('error');
+                }
+                peer.destroy();
+                reject(err);
+            };
+
+            peer.on('open', (peerId) => {
+                console.log('PeerJS Connected with ID:', peerId);
+                clearTimeout(timer);
+                if (this.peer !== peer) return reject(new Error('PeerClient was disconnected'));
+                this.initializing = null;
+                this.myPeerId = peerId;
+                this.setStatus('open');
+                resolve(peerId);
             });
 
-            this.peer.on('error', (err) => {
+            peer.on('error', (err) => {
                 console.error('PeerJS Error:', err);
-                reject(err);
+                // Before 'open' every error is fatal; afterwards most are about a single connection
+                if (!this.myPeerId) fail(err);
             });
 
-            this.peer.on('connection', (conn) => {
+            // Lost the PeerServer: open connections keep working, new ones need it back
+            peer.on('disconnected', () => {
+                if (this.peer !== peer || peer.destroyed) return;
+                this.setStatus('disconnected');
+                peer.reconnect();
+            });
+
+            peer.on('connection', (conn) => {
                 this.handleIncomingConnection(conn);
             });
 
-            this.peer.on('call', (call) => {
-                // Auto-answer or trigger event? 
-                // For now, let's just log. Real app needs permission/logic.
-                console.log('Incoming call from:', call.peer);
-                // call.answer(myStream);
+            peer.on('call', (call) => {
+                if (!this.peerUsers.has(call.peer) && call.metadata?.userId) {
+                    this.peerUsers.set(call.peer, call.metadata.userId);
+                }
+                // Answering needs a local stream: left to whoever listens (VoiceChat)
+                if (!this.listeners.get('call')?.size) {
+                    console.log('Incoming call from:', call.peer);
+                    return;
+                }
+                this.notifyListeners('call', call);
             });
         });
+        return this.initializing;
+    }
+
+    public getStatus(): PeerStatus {
+        return this.status;
     }
 
-    public connectToPeer(remotePeerId: string, metadata?: any) {
+    private setStatus(status: PeerStatus) {
+        if (status === this.status) return;
+        this.status = status;
+        this.notifyListeners('status', status);
+    }
+
+    /**
+     * Our userId, stamped on outgoing messages and sent to peers when connecting.
+     */
+    public setUserId(userId: string | null) {
+        this.userId = userId;
+    }
+
+    /**
+     * Opens a data connection to a peer.
+     * @param userId The peer's userId as announced by the server (presence), so its messages can be attributed.
+     */
+    public connectToPeer(remotePeerId: string, userId?: string, metadata?: any) {
+        if (userId) this.peerUsers.set(remotePeerId, userId);
         if (!this.peer || this.connections.has(remotePeerId)) return;
 
         console.log('Connecting to peer:', remotePeerId);
-        const conn = this.peer.connect(remotePeerId, { metadata });
+        const conn = this.peer.connect(remotePeerId, { metadata: { ...metadata, userId: this.userId } });
+        this.dialed.add(conn);
         this.handleIncomingConnection(conn);
     }
 
     private handleIncomingConnection(conn: DataConnection) {
+        // Incoming connections tell us who they are; ids learnt from presence take precedence
+        if (!this.peerUsers.has(conn.peer) && conn.metadata?.userId) {
+            this.peerUsers.set(conn.peer, conn.metadata.userId);
+        }
+
         conn.on('open', () => {
             console.log('DataConnection Open:', conn.peer);
+            const existing = this.connections.get(conn.peer);
+            const replacing = existing && existing !== conn && existing.open;
+            // Both sides dialed at once: both keep the connection opened by the lower peer id
+            if (replacing && this.dialer(existing) < this.dialer(conn)) {
+                conn.close();
+                return;
+            }
             this.connections.set(conn.peer, conn);
+            if (replacing) existing.close();
+            this.channelDefinitions.forEach((definition, name) => this.openChannel(conn, name, definition));
+            this.setPeerState(conn.peer, { state: 'open' });
+            if (!replacing) this.notifyListeners('peer:open', { peerId: conn.peer, userId: this.peerUsers.get(conn.peer) ?? null });
         });
 
-        conn.on('data', (data) => {
-            console.log('Received data from', conn.peer, data);
-            // specific peer logic here
-        });
+        conn.on('data', (data) => this.receive(conn.peer, data));
 
         conn.on('close', () => {
             console.log('DataConnection Closed:', conn.peer);
+            this.channels.get(conn)?.forEach(channel => channel.close());
+            this.channels.delete(conn);
+            // A duplicate closing must not take the live connection with it
+            if (this.connections.get(conn.peer) !== conn) return;
             this.connections.delete(conn.peer);
+            this.peerStates.delete(conn.peer);
+            this.notifyListeners('peer:close', { peerId: conn.peer, userId: this.peerUsers.get(conn.peer) ?? null });
         });
 
         conn.on('error', (err) => {
             console.error('DataConnection Error:', err);
+            if (this.connections.get(conn.peer) === conn) this.setPeerState(conn.peer, { state: 'failed' });
         });
 
+        conn.on('iceStateChanged', (iceState) => {
+            if (this.connections.get(conn.peer) !== conn) return;
+            this.setPeerState(conn.peer, iceState === 'failed' ? { state: 'failed', iceState } : { iceState });
+        });
+
+        // Until it opens, a second connection to the same peer waits behind the first
+        if (this.connections.has(conn.peer)) return;
         this.connections.set(conn.peer, conn);
+        this.setPeerState(conn.peer, { state: conn.open ? 'open' : 'connecting' });
     }
 
-    public disconnect() {
-        if (this.peer) {
-            this.peer.destroy();
-            this.peer = null;
-            this.myPeerId = null;
-            this.connections.clear();
-            this.calls.clear();
+    // Peer id of the side that opened the connection
+    private dialer(conn: DataConnection): string {
+        return this.dialed.has(conn) ? this.myPeerId ?? '' : conn.peer;
+    }
+
+    private receive(peerId: string, data: unknown) {
+        const message = data as PeerMessage;
+        if (!message || typeof message.event !== 'string') {
+            console.warn('Dropped malformed peer message from', peerId, data);
+            return;
+        }
+        let payload: unknown;
+        try {
+            payload = this.serializer.decode(message.event, message.payload);
+        } catch (err) {
+            console.warn(`Dropped undecodable '${message.event}' peer message from`, peerId, err);
+            return;
+        }
+        // Attribute by connection, not by what the sender claims
+        const received: PeerMessage = { ...message, payload, peerId, from: this.peerUsers.get(peerId) ?? message.from };
+        this.notifyListeners('message', received);
+        this.messageListeners.get(message.event)?.forEach(cb => cb(received));
+    }
+
+    // Channels
+    /**
+     * Adds a named data channel to every peer connection, e.g. an unordered channel for positions.
+     * Every client must define the same channels, with the same settings; `reliable` (the connection itself)
+     * and `unreliable` (unordered, sent once) exist from the start.
+     */
+    public defineChannel(name: string, options: PeerChannelOptions = {}) {
+        if (name === 'reliable') throw new Error(`'reliable' is the peer connection itself and can't be redefined`);
+        const id = channelId(name);
+        for (const [other, definition] of this.channelDefinitions) {
+            if (other !== name && definition.id === id) throw new Error(`Channel '${name}' collides with '${other}'; pick another name`);
         }
+
+        const definition: ChannelDefinition = { id, options };
+        this.channelDefinitions.set(name, definition);
+        this.connections.forEach(conn => {
+            if (conn.open) this.openChannel(conn, name, definition);
+        });
+    }
+
+    private openChannel(conn: DataConnection, name: string, { id, options }: ChannelDefinition) {
+        const pc = conn.peerConnection;
+        if (!pc) return;
+        if (!this.channels.has(conn)) this.channels.set(conn, new Map());
+        const channels = this.channels.get(conn)!;
+        channels.get(name)?.close();
+
+        try {
+            const channel = pc.createDataChannel(name, { ...options, negotiated: true, id });
+            channel.binaryType = 'arraybuffer';
+            channel.onmessage = (event) => {
+                let data: unknown;
+                try {
+                    data = typeof event.data === 'string' ? JSON.parse(event.data) : unpackFrame(event.data);
+                } catch {
+                    data = null;
+                }
+                this.receive(conn.peer, data);
+            };
+            channels.set(name, channel);
+        } catch (err) {
+            console.warn(`Failed to open channel '${name}' to`, conn.peer, err);
+        }
+    }
+
+    private setPeerState(peerId: string, patch: Partial<Pick<PeerInfo, 'state' | 'iceState'>>) {
+        const current = this.peerStates.get(peerId) ?? { state: 'connecting' };
+        this.peerStates.set(peerId, { ...current, ...patch });
+        this.notifyListeners('peer:state', this.getPeerInfo(peerId));
+    }
+
+    private getPeerInfo(peerId: string): PeerInfo {
+        const { state, iceState } = this.peerStates.get(peerId) ?? { state: 'connecting' };
+        return { peerId, userId: this.peerUsers.get(peerId) ?? null, state, iceState, inCall: this.calls.has(peerId) };
+    }
+
+    /**
+     * Our data connections and their state, for connection indicators.
+     */
+    public getPeers(): PeerInfo[] {
+        return [...this.peerStates.keys()].map(peerId => this.getPeerInfo(peerId));
+    }
+
+    // Media
+    /**
+     * Calls a peer with a local stream.
+     * @returns The call, or null if PeerJS isn't initialized.
+     */
+    public call(remotePeerId: string, stream: MediaStream, metadata?: any): MediaConnection | null {
+        if (!this.peer) return null;
+        const call = this.peer.call(remotePeerId, stream, { metadata: { ...metadata, userId: this.userId } });
+        this.trackCall(call);
+        return call;
+    }
+
+    /**
+     * Answers an incoming call (received through `on('call')`) with a local stream.
+     */
+    public answer(call: MediaConnection, stream: MediaStream) {
+        call.answer(stream);
+        this.trackCall(call);
+    }
+
+    private trackCall(call: MediaConnection) {
+        this.calls.set(call.peer, call);
+        this.notifyCallState(call.peer);
+        const forget = () => {
+            // A newer call to the same peer may have replaced this one
+            if (this.calls.get(call.peer) !== call) return;
+            this.calls.delete(call.peer);
+            this.notifyCallState(call.peer);
+        };
+        call.on('close', forget);
+        call.on('error', forget);
+    }
+
+    public getCall(peerId: string): MediaConnection | undefined {
+        return this.calls.get(peerId);
+    }
+
+    public closeCall(peerId: string) {
+        this.calls.get(peerId)?.close();
+        this.calls.delete(peerId);
+        this.notifyCallState(peerId);
+    }
+
+    private notifyCallState(peerId: string) {
+        if (this.peerStates.has(peerId)) this.notifyListeners('peer:state', this.getPeerInfo(peerId));
+    }
+
+    // Messaging
+    /**
+     * Sends a message to one peer, over the connection itself or a named channel.
+     * Until a named channel is open, messages for it go over the connection.
+     * @returns false if there is no open connection to that peer.
+     */
+    public send<T = any>(peerId: string, message: OutgoingPeerMessage<T>, options: PeerSendOptions = {}): boolean {
+        const conn = this.connections.get(peerId);
+        if (!conn?.open) return false;
+        const envelope: PeerMessage = {
+            ...message,
+            payload: this.serializer.encode(message.event, message.payload),
+            from: this.userId ?? '',
+            ts: Date.now(),
+        };
+
+        const channel = options.channel && options.channel !== 'reliable' ? this.channels.get(conn)?.get(options.channel) : undefined;
+        if (channel?.readyState === 'open') {
+            if (isBinary(envelope.payload)) channel.send(packFrame(envelope as PeerMessage<Uint8Array>));
+            else channel.send(JSON.stringify(envelope));
+        } else {
+            conn.send(envelope);
+        }
+        return true;
+    }
+
+    /**
+     * Sends a message to every connected peer, or to the given ones.
+     * @returns The peerIds it was sent to.
+     */
+    public broadcast<T = any>(message: OutgoingPeerMessage<T>, peerIds?: string[], options?: PeerSendOptions): string[] {
+        return (peerIds ?? [...this.connections.keys()]).filter(peerId => this.send(peerId, message, options));
+    }
+
+    public isConnectedTo(peerId: string): boolean {
+        return !!this.connections.get(peerId)?.open;
+    }
+
+    public getConnectedPeers(): string[] {
+        return [...this.connections.values()].filter(conn => conn.open).map(conn => conn.peer);
+    }
+
+    public getPeerUser(peerId: string): string | null {
+        return this.peerUsers.get(peerId) ?? null;
+    }
+
+    public getPeerId(userId: string): string | null {
+        for (const [peerId, user] of this.peerUsers) {
+            if (user === userId) return peerId;
+        }
+        return null;
+    }
+
+    // Subscription System
+    public on(event: 'peer:open' | 'peer:close', callback: PeerCallback<PeerConnectionEvent>): void;
+    public on(event: 'call', callback: PeerCallback<MediaConnection>): void;
+    public on(event: 'peer:state', callback: PeerCallback<PeerInfo>): void;
+    public on(event: 'status', callback: PeerCallback<PeerStatus>): void;
+    public on(event: 'message', callback: PeerCallback<PeerMessage>): void;
+    public on(event: string, callback: PeerCallback) {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)?.add(callback);
+    }
+
+    public off(event: string, callback: PeerCallback) {
+        this.listeners.get(event)?.delete(callback);
+    }
+
+    /**
+     * Listens to peer messages of one event. Separate from `on`, so a message named after one of our own events
+     * (`call`, `status`...) can't trigger its listeners.
+     */
+    public onMessage<T = any>(event: string, callback: PeerCallback<PeerMessage<T>>) {
+        if (!this.messageListeners.has(event)) {
+            this.messageListeners.set(event, new Set());
+        }
+        this.messageListeners.get(event)?.add(callback);
+    }
+
+    public offMessage<T = any>(event: string, callback: PeerCallback<PeerMessage<T>>) {
+        this.messageListeners.get(event)?.delete(callback);
+    }
+
+    private notifyListeners(event: string, data: any) {
+        this.listeners.get(event)?.forEach(cb => cb(data));
+    }
+
+    public disconnect() {
+        const peer = this.peer;
+        if (!peer) return;
+        // Cleared first, so the 'disconnected' raised by destroy() doesn't reconnect
+        this.peer = null;
+        this.myPeerId = null;
+        this.initializing = null;
+        peer.destroy();
+        this.connections.clear();
+        this.channels.forEach(channels => channels.forEach(channel => channel.close()));
+        this.channels.clear();
+        this.calls.forEach(call => call.close());
+        this.calls.clear();
+        this.peerUsers.clear();
+        this.peerStates.clear();
+        this.setStatus('idle');
     }
 }
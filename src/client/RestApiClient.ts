@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
-import { Room } from '../types';
+import { Room, PolledEvent, RoomSettings, CreateRoomOptions, RoomListQuery, RoomPage } from '../types';
+import { isRoomVisible, redactRoom, matchesRoomFilter, sortRooms } from '../logic/roomFilter';
 
 export class RestApiClient {
     private api: AxiosInstance;
@@ -31,20 +32,111 @@ export class RestApiClient {
     }
 
     // B. Admin: Create Room
-    public async createRoom(createdBy: string, roomId?: string): Promise<Room> {
-        const res = await this.api.post('/v1/rooms', { roomId, createdBy });
+    public async createRoom(createdBy: string, options: string | CreateRoomOptions = {}): Promise<Room> {
+        const data: CreateRoomOptions = typeof options === 'string' ? { roomId: options } : options;
+        const res = await this.api.post('/v1/rooms', { ...data, createdBy });
         return res.data;
     }
 
     // C. Admin: List Rooms
-    public async listRooms(): Promise<Room[]> {
-        const res = await this.api.get('/v1/rooms');
+    // Sends our user id so the server can leave out private rooms and passwords we may not see.
+    // Hidden again here in case the server doesn't; that only tidies the list, it doesn't keep them secret.
+    public async listRooms(userId?: string): Promise<Room[]> {
+        const res = await this.api.get('/v1/rooms', { params: { userId } });
+        const rooms: Room[] = res.data ?? [];
+        return rooms.filter(room => isRoomVisible(room, userId)).map(room => redactRoom(room, userId));
+    }
+
+    // C1. Filtered, sorted, paginated room list
+    // Servers that only return a plain array are filtered and paged here, using the offset as cursor.
+    // Private rooms and passwords are filtered by the server for `userId`; the client-side check is only a fallback.
+    public async queryRooms(query: RoomListQuery = {}, userId?: string): Promise<RoomPage> {
+        const { filter = {}, sort = { by: 'createdAt' }, limit = 20, cursor } = query;
+        const res = await this.api.get('/v1/rooms', {
+            params: {
+                userId,
+                limit,
+                cursor: cursor ?? undefined,
+                sort: sort.by,
+                order: sort.order ?? 'asc',
+                hasFreeSlots: filter.hasFreeSlots,
+                excludePrivate: filter.excludePrivate,
+                excludeLocked: filter.excludeLocked,
+                search: filter.search,
+                meta: filter.meta ? JSON.stringify(filter.meta) : undefined,
+            },
+        });
+
+        const visible = (rooms: Room[]) => rooms
+            .filter(room => isRoomVisible(room, userId) && matchesRoomFilter(room, filter))
+            .map(room => redactRoom(room, userId));
+
+        if (!Array.isArray(res.data)) {
+            return { rooms: visible(res.data?.rooms ?? []), nextCursor: res.data?.nextCursor ?? null };
+        }
+
+        const all = sortRooms(visible(res.data), sort);
+        const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+        const end = offset + limit;
+        return { rooms: all.slice(offset, end), nextCursor: end < all.length ? String(end) : null };
+    }
+
+    // C2. Admin: Moderation
+    public async kickMember(roomId: string, userId: string, reason?: string): Promise<Room> {
+        const res = await this.api.post(`/v1/rooms/${roomId}/kick`, { userId, reason });
+        return res.data;
+    }
+
+    public async banMember(roomId: string, userId: string, reason?: string): Promise<Room> {
+        const res = await this.api.post(`/v1/rooms/${roomId}/bans`, { userId, reason });
+        return res.data;
+    }
+
+    public async unbanMember(roomId: string, userId: string): Promise<Room> {
+        const res = await this.api.delete(`/v1/rooms/${roomId}/bans/${userId}`);
+        return res.data;
+    }
+
+    public async promoteMember(roomId: string, userId: string): Promise<Room> {
+        const res = await this.api.post(`/v1/rooms/${roomId}/admins`, { userId });
+        return res.data;
+    }
+
+    public async demoteMember(roomId: string, userId: string): Promise<Room> {
+        const res = await this.api.delete(`/v1/rooms/${roomId}/admins/${userId}`);
+        return res.data;
+    }
+
+    // Password, privacy and capacity. `null` clears the password or the member limit.
+    public async updateRoom(roomId: string, settings: RoomSettings): Promise<Room> {
+        const res = await this.api.patch(`/v1/rooms/${roomId}`, settings);
+        return res.data;
+    }
+
+    // C3. Membership over HTTP (REST fallback transport, while the socket can't connect)
+    public async joinRoom(roomId: string, userId: string, options: { peerId?: string; password?: string; resume?: boolean } = {}): Promise<{ ok: boolean; role: string }> {
+        const res = await this.api.post(`/v1/rooms/${roomId}/members`, { userId, ...options });
+        return res.data;
+    }
+
+    public async leaveRoom(roomId: string, userId: string): Promise<{ ok: boolean }> {
+        const res = await this.api.delete(`/v1/rooms/${roomId}/members/${userId}`);
         return res.data;
     }
 
     // D. Emit to Socket Room via HTTP
-    public async emitToSocket(roomId: string, event: string, payload: any): Promise<{ success: boolean; event: string; roomId: string }> {
-        const res = await this.api.post(`/toSocket/${event}`, { roomId, payload });
+    public async emitToSocket(roomId: string, event: string, payload: any, from?: string): Promise<{ success: boolean; event: string; roomId: string }> {
+        const res = await this.api.post(`/toSocket/${event}`, { roomId, payload, from });
+        return res.data;
+    }
+
+    // D2. Long-poll room events (REST fallback transport)
+    // The server holds the request for up to `wait` ms and returns everything after `cursor`.
+    public async pollEvents(userId: string, roomIds: string[], cursor?: string, wait: number = 25000): Promise<{ events: PolledEvent[]; cursor?: string }> {
+        const res = await this.api.get('/v1/events', {
+            params: { userId, rooms: roomIds.join(','), cursor, wait },
+            timeout: wait + 5000,
+        });
         return res.data;
     }
 
@@ -0,0 +1,34 @@
+import type { SocketClient } from './SocketClient';
+import { EventMap, DefaultEventMap, EventPayload, RoomEventName, RoomEvents, EmitOptions } from '../types';
+
+/**
+ * Room events of a single room. Listeners only see messages sent to that room,
+ * so a client in several rooms doesn't mix up their chat or entity traffic.
+ * Get one with `client.channel(roomId)`.
+ */
+export class RoomChannel<E extends EventMap = DefaultEventMap> {
+    public readonly roomId: string;
+    private client: SocketClient<E>;
+
+    constructor(client: SocketClient<E>, roomId: string) {
+        this.client = client;
+        this.roomId = roomId;
+    }
+
+    public emit<K extends RoomEventName<E>>(event: K, payload: RoomEvents<E>[K], options?: EmitOptions): Promise<boolean> {
+        return this.client.emitToRoom(this.roomId, event, payload, options);
+    }
+
+    /**
+     * Subscribes to an event in this room.
+     * @returns A function that removes the subscription.
+     */
+    public on<K extends RoomEventName<E>>(event: K, callback: (data: EventPayload<E, K>) => void): () => void {
+        // For a room event K the payload is a CustomEvent; the check below narrows it without naming K
+        const scoped = (data: EventPayload<E, K>) => {
+            if (typeof data === 'object' && data !== null && 'roomId' in data && data.roomId === this.roomId) callback(data);
+        };
+        this.client.on(event, scoped);
+        return () => this.client.off(event, scoped);
+    }
+}
@@ -1,27 +1,92 @@
 import { io, Socket } from 'socket.io-client';
-import { AuthData, Room, CustomEvent, PresenceEvent } from '../types';
+import { AuthData, Room, CustomEvent, PresenceEvent, EventMap, DefaultEventMap, EventName, EventPayload, RoomEventName, RoomEvents, EventValidators, ConnectOptions, PolledEvent, TransportKind, ModerationEvent, RoomSettings, CreateRoomOptions, JoinRoomOptions, MatchCriteria, QueueStatus, MatchFound, MatchReady, MatchCancelled, EmitOptions } from '../types';
+import { ClockSync, ClockStats } from '../logic/clockSync';
+import { EntityManager } from './EntityManager';
+import { RestApiClient } from './RestApiClient';
+import { Transport, SocketTransport, RestTransport, emitWithAck } from './transports';
+import { GameSocketError, errorFromResponse } from './errors';
+import { Outbox } from './Outbox';
+import { RoomChannel } from './RoomChannel';
+import { Serializer, SerializerOption, createSerializer } from './serializers';
 
 type EventCallback<T = any> = (data: T) => void;
 
-export class SocketClient {
-    private static instance: SocketClient;
+/**
+ * Singleton managing the Socket.IO connection, room membership and event subscriptions.
+ * Pass your own event map to `getInstance<MyEvents>()` to type event names and payloads.
+ */
+export class SocketClient<E extends EventMap = DefaultEventMap> {
+    private static instance: SocketClient<any>;
     public socket: Socket | null = null;
     private auth: AuthData | null = null;
     private url: string = 'http://localhost:3000';
 
     // Event listeners map
     private listeners: Map<string, Set<EventCallback>> = new Map();
+    private validators: EventValidators<E> = {};
+
+    // Clock synchronization with the server
+    private clock = new ClockSync();
+    private clockTimer: ReturnType<typeof setInterval> | null = null;
+    private clockSyncInterval = 5000; // ms between pings once synced
+    private clockBurstSize = 5; // pings sent right after connecting
+
+    // Batched entity state (one world:snapshot per room per tick)
+    public readonly entities: EntityManager = new EntityManager(this);
+
+    // Transports, in order of preference. REST takes over while the socket stays down.
+    public readonly rest: RestApiClient = new RestApiClient(this.url, '');
+    private joinedRooms: Map<string, JoinRoomOptions> = new Map(); // roomId -> how we joined, reused to rejoin
+    private readyRooms: Set<string> = new Set(); // Joined rooms whose membership is live and whose outbox is drained
+    private flushes: Map<string, Promise<void>> = new Map(); // roomId -> outbox flush in progress
+    private linkGeneration = 0; // Bumped whenever the connection comes or goes; stale flushes stop
+    private serializer: Serializer = createSerializer('json');
+    private socketTransport = new SocketTransport(() => this.socket, () => this.ackTimeout, () => this.serializer);
+    private restTransport = new RestTransport(this.rest, () => this.getUserId(), () => [...this.joinedRooms.keys()], e => this.handlePolledEvent(e));
+    private transports: Transport[] = [this.socketTransport, this.restTransport];
+    private restFallback = true;
+    private fallbackTimeout = 5000; // ms the socket may stay down before falling back
+    private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+    private ackTimeout = 10000; // ms to wait for the server to acknowledge a request
+
+    // Room events sent while offline, flushed once the room is rejoined
+    public readonly outbox: Outbox = new Outbox();
+
+    // Session resume: rooms are rejoined after a reconnect, and brief leave/join blips are hidden
+    private sessionId = '';
+    private autoRejoin = true;
+    private presenceGrace = 3000;
+    private pendingLeaves: Map<string, ReturnType<typeof setTimeout>> = new Map(); // `${roomId}:${userId}`
+
+    private channels: Map<string, RoomChannel<E>> = new Map();
+    private roomListSubscribers = 0; // Room browsers interested in `room:list` pushes
+
+    // Events the client raises itself (or from its base listeners); never bound straight to the socket
+    private static readonly managedEvents = new Set([
+        'connect', 'disconnect', 'connect_error', 'error', 'room:presence', 'room:emit', 'room:moderation',
+        'clock:sync', 'transport', 'reconnecting', 'resumed', 'match:status', 'match:found', 'match:ready', 'match:cancelled',
+    ]);
+
+    // Matchmaking
+    private matchTicket: string | null = null;
 
     private constructor() { }
 
-    public static getInstance(): SocketClient {
+    public static getInstance<E extends EventMap = DefaultEventMap>(): SocketClient<E> {
         if (!SocketClient.instance) {
             SocketClient.instance = new SocketClient();
         }
-        return SocketClient.instance;
+        return SocketClient.instance as SocketClient<E>;
     }
 
-    public connect(url: string, auth: AuthData): Socket {
+    public connect(url: string, auth: AuthData, options: ConnectOptions = {}): Socket {
+        this.restFallback = options.restFallback ?? true;
+        this.fallbackTimeout = options.fallbackTimeout ?? 5000;
+        this.autoRejoin = options.autoRejoin ?? true;
+        this.presenceGrace = options.presenceGrace ?? 3000;
+        this.ackTimeout = options.ackTimeout ?? 10000;
+        if (options.serializer !== undefined) this.serializer = createSerializer(options.serializer);
+
         if (this.socket?.connected) {
             if (this.url === url && this.auth?.apiKey === auth.apiKey && this.auth?.userId === auth.userId) {
                 console.log('Socket already connected with same config');
@@ -32,21 +97,76 @@ export class SocketClient {
 
         this.url = url;
         this.auth = auth;
+        this.rest.updateConfig(url, auth.apiKey);
+        this.stopRestFallback();
+        // A new session starts with no rooms to resume
+        this.joinedRooms.clear();
+        this.readyRooms.clear();
+        this.outbox.clear(new GameSocketError('cancelled', 'Disconnected'));
+        this.sessionId = `${auth.userId}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
 
         this.socket = io(url, {
             auth: {
                 apiKey: auth.apiKey,
                 userId: auth.userId,
+                sessionId: this.sessionId, // Lets the server keep our memberships through a brief drop
             },
             transports: ['polling', 'websocket'], // Allow polling fallback
             reconnection: true,
         });
 
         this.setupBaseListeners();
+        this.scheduleRestFallback();
         return this.socket;
     }
 
+    public getUserId(): string | null {
+        return this.auth?.userId ?? null;
+    }
+
+    /**
+     * True while room events can be sent, over the socket or the REST fallback.
+     */
+    public isConnected(): boolean {
+        return this.transports.some(t => t.available);
+    }
+
+    /**
+     * The serializer room event payloads are encoded with (see `ConnectOptions.serializer`).
+     */
+    public getSerializer(): Serializer {
+        return this.serializer;
+    }
+
+    /**
+     * Switches the wire format. Every client of a room must use the same one.
+     */
+    public setSerializer(serializer: SerializerOption) {
+        this.serializer = createSerializer(serializer);
+    }
+
+    /**
+     * The transport messages currently travel over, or null when offline.
+     */
+    public getTransport(): TransportKind | null {
+        return this.transports.find(t => t.available)?.kind ?? null;
+    }
+
     public disconnect() {
+        this.stopClockSync();
+        this.joinedRooms.clear();
+        this.readyRooms.clear();
+        this.outbox.clear(new GameSocketError('cancelled', 'Disconnected'));
+        this.pendingLeaves.forEach(timer => clearTimeout(timer));
+        this.pendingLeaves.clear();
+        this.matchTicket = null;
+        if (this.restTransport.available) {
+            // The socket isn't connected, so it won't report the disconnect for us
+            this.stopRestFallback();
+            this.notifyListeners('disconnect', { connected: false });
+            this.notifyListeners('transport', null);
+        }
+        this.stopRestFallback();
         if (this.socket) {
             this.socket.disconnect();
             this.socket = null;
@@ -58,11 +178,28 @@ export class SocketClient {
 
         this.socket.on('connect', () => {
             console.log('Socket Connected:', this.socket?.id);
-            this.notifyListeners('connect', { connected: true, socketId: this.socket?.id });
+            this.stopRestFallback();
+            this.notifyListeners('connect', { connected: true, socketId: this.socket?.id, transport: this.socketTransport.kind });
+            this.notifyListeners('transport', this.socketTransport.kind);
+            this.startClockSync();
+
+            // Rooms are only remembered across a reconnect, so this does nothing on the first connect.
+            // Until a room is rejoined and its outbox flushed, new messages for it queue behind the old ones.
+            this.readyRooms.clear();
+            this.linkGeneration++;
+            if (this.autoRejoin && this.joinedRooms.size > 0) {
+                this.resumeRooms();
+            } else {
+                this.joinedRooms.forEach((_, roomId) => this.flushOutbox(roomId));
+            }
+            if (this.roomListSubscribers > 0) {
+                emitWithAck(this.socket, 'rooms:subscribe', { userId: this.getUserId() }, this.ackTimeout)
+                    .catch(err => console.warn('Failed to resubscribe to the room list:', err));
+            }
 
             // Re-attach all custom listeners being tracked
             this.listeners.forEach((_, event) => {
-                if (event !== 'connect' && event !== 'disconnect' && event !== 'connect_error' && event !== 'room:presence' && event !== 'room:emit') {
+                if (!SocketClient.managedEvents.has(event)) {
                     if (!this.socket?.hasListeners(event)) {
                         this.socket?.on(event, (data) => this.notifyListeners(event, data));
                     }
@@ -70,9 +207,32 @@ export class SocketClient {
             });
         });
 
-        this.socket.on('disconnect', () => {
+        // Report the switch from HTTP polling to WebSocket (each reconnect opens a new engine)
+        this.socket.io.on('open', () => {
+            this.socket?.io.engine.on('upgrade', () => this.notifyListeners('transport', this.getTransport()));
+        });
+
+        this.socket.io.on('reconnect_attempt', (attempt) => {
+            this.notifyListeners('reconnecting', { attempt });
+        });
+
+        this.socket.on('disconnect', (reason) => {
             console.log('Socket Disconnected');
+            this.stopClockSync();
+            this.readyRooms.clear();
+            this.linkGeneration++;
             this.notifyListeners('disconnect', { connected: false });
+            this.notifyListeners('transport', null);
+            // The server drops queue tickets with the connection
+            if (this.matchTicket) {
+                this.notifyListeners('match:cancelled', { ticketId: this.matchTicket, reason: 'error', requeued: false });
+                this.matchTicket = null;
+            }
+            // A manual disconnect means we're done; anything else may warrant the fallback
+            if (reason !== 'io client disconnect') {
+                this.notifyListeners('reconnecting', { attempt: 0, reason });
+                this.scheduleRestFallback();
+            }
         });
 
         this.socket.on('connect_error', (err) => {
@@ -80,76 +240,457 @@ export class SocketClient {
             this.notifyListeners('error', err);
         });
 
-        this.socket.on('room:presence', (data: PresenceEvent) => {
-            this.notifyListeners('room:presence', data);
+        this.socket.on('room:presence', this.handlePresence);
+        this.socket.on('room:emit', this.handleRoomEmit);
+        this.socket.on('room:moderation', this.handleModeration);
+
+        this.socket.on('match:status', (data: QueueStatus) => {
+            if (data.ticketId === this.matchTicket) this.notifyListeners('match:status', data);
         });
+        this.socket.on('match:found', (data: MatchFound) => {
+            if (data.ticketId !== this.matchTicket) return;
+            // Without a ready check the match is final; no `match:ready` follows
+            if (!data.requiresAccept) this.matchTicket = null;
+            this.notifyListeners('match:found', data);
+        });
+        this.socket.on('match:ready', (data: MatchReady) => {
+            if (!this.matchTicket) return;
+            this.matchTicket = null;
+            this.notifyListeners('match:ready', data);
+        });
+        this.socket.on('match:cancelled', (data: MatchCancelled) => {
+            if (data.ticketId !== this.matchTicket) return;
+            if (!data.requeued) this.matchTicket = null;
+            this.notifyListeners('match:cancelled', data);
+        });
+    }
 
-        this.socket.on('room:emit', (data: CustomEvent) => {
-            // General listener for all custom events
-            this.notifyListeners('room:emit', data);
+    private handlePresence = (data: PresenceEvent) => {
+        const key = `${data.roomId}:${data.userId}`;
 
-            // Specific listener for the custom event name
-            if (data.event) {
-                this.notifyListeners(data.event, data);
+        // Hold leaves back for a moment: a member whose connection blipped comes straight back
+        if (data.event === 'leave' && this.presenceGrace > 0) {
+            if (this.pendingLeaves.has(key)) return;
+            this.pendingLeaves.set(key, setTimeout(() => {
+                this.pendingLeaves.delete(key);
+                this.notifyListeners('room:presence', data);
+            }, this.presenceGrace));
+            return;
+        }
+
+        if (data.event === 'join' && this.pendingLeaves.has(key)) {
+            // Back within the grace period: the leave never happened. The join still goes out
+            // (members are deduplicated) so a new peerId is picked up.
+            clearTimeout(this.pendingLeaves.get(key));
+            this.pendingLeaves.delete(key);
+        }
+
+        this.notifyListeners('room:presence', data);
+    };
+
+    private handleRoomEmit = (data: CustomEvent) => {
+        if (data.event) {
+            try {
+                data = { ...data, payload: this.serializer.decode(data.event, data.payload) };
+            } catch (err) {
+                console.warn(`Dropped undecodable '${data.event}' payload from ${data.from}:`, err);
+                return;
             }
-        });
+        }
+        this.deliverRoomEvent(data);
+    };
+
+    private deliverRoomEvent(data: CustomEvent) {
+        // Drop malformed messages before anyone sees them
+        const validate = data.event ? (this.validators as Record<string, ((payload: unknown) => boolean) | undefined>)[data.event] : undefined;
+        if (validate && !validate(data.payload)) {
+            console.warn(`Dropped invalid '${data.event}' payload from ${data.from}:`, data.payload);
+            return;
+        }
+
+        // General listener for all custom events
+        this.notifyListeners('room:emit', data);
+
+        // Specific listener for the custom event name
+        if (data.event) {
+            this.notifyListeners(data.event, data);
+        }
+    }
+
+    /**
+     * Delivers a room event that reached us by another path (e.g. a WebRTC data connection)
+     * to listeners, exactly as if it had come through the socket. Validators apply.
+     * The payload must already be decoded.
+     */
+    public injectRoomEvent(data: CustomEvent) {
+        this.deliverRoomEvent(data);
+    }
+
+    private handleModeration = (data: ModerationEvent) => {
+        // Kicked or banned: we're no longer in the room, don't try to rejoin it or flush its queue
+        if ((data.action === 'kick' || data.action === 'ban') && data.userId === this.getUserId()) {
+            this.joinedRooms.delete(data.roomId);
+            this.readyRooms.delete(data.roomId);
+            this.outbox.clear(new GameSocketError('cancelled', `Removed from room (${data.action})`), data.roomId);
+        }
+        this.notifyListeners('room:moderation', data);
+    };
+
+    private handlePolledEvent(event: PolledEvent) {
+        if (event.type === 'room:presence') this.handlePresence(event.data);
+        else if (event.type === 'room:emit') this.handleRoomEmit(event.data);
+        else if (event.type === 'room:moderation') this.handleModeration(event.data);
+    }
+
+    // REST Fallback
+    private scheduleRestFallback() {
+        if (!this.restFallback || this.fallbackTimer || this.restTransport.available) return;
+        this.fallbackTimer = setTimeout(() => {
+            this.fallbackTimer = null;
+            if (this.socket?.connected || !this.auth) return;
+            console.warn(`Socket unavailable for ${this.fallbackTimeout}ms, falling back to REST`);
+            this.restTransport.start();
+            this.notifyListeners('connect', { connected: true, transport: 'rest' });
+            this.notifyListeners('transport', 'rest');
+            this.linkGeneration++;
+            // REST emits don't depend on a socket membership, so resend right away
+            this.joinedRooms.forEach((_, roomId) => this.flushOutbox(roomId));
+        }, this.fallbackTimeout);
+    }
+
+    private stopRestFallback() {
+        if (this.fallbackTimer) {
+            clearTimeout(this.fallbackTimer);
+            this.fallbackTimer = null;
+        }
+        this.restTransport.stop();
     }
 
     // Room Management
-    public createRoom(roomId?: string): Promise<Room> {
-        return new Promise((resolve, reject) => {
-            if (!this.socket) return reject('No socket connection');
-            this.socket.emit('room:create', { roomId }, (response: any) => {
-                if (response && response.roomId) resolve(response as Room); // Ideally response is the Room object
-                // Per spec, 'room:create' ack returns { roomId: "..." }. 
-                // But let's assume valid room creation. 
-                // Wait, the spec says Ack: { "roomId": "..." }
-                // It might be better to fetch room info after? Or maybe we just resolve with partial?
-                // Let's resolve with what we get.
-                else resolve(response);
-            });
-        });
+    // Every request rejects with a GameSocketError: a TimeoutError after `ackTimeout` ms without an ack,
+    // or the class matching the server's refusal (RoomFullError, BannedError...).
+    /**
+     * Creates a room. Pass an id, or options for capacity, privacy, password and custom `meta`.
+     * If the server made us a member, the room counts as joined (rejoined after a reconnect, and so on);
+     * otherwise call `joinRoom` to enter it.
+     */
+    public async createRoom(options: string | CreateRoomOptions = {}): Promise<Room> {
+        const data: CreateRoomOptions = typeof options === 'string' ? { roomId: options } : options;
+        const response = await emitWithAck(this.socket, 'room:create', data, this.ackTimeout);
+        if (response && response.roomId) { // Ideally response is the Room object
+            const room = response as Room;
+            const me = this.getUserId();
+            if (me && room.members?.some(m => m.userId === me)) {
+                this.joinedRooms.set(room.roomId, { password: data.password });
+                this.flushOutbox(room.roomId);
+            }
+            return room;
+        }
+        if (!response || response.ok === false || response.error) throw errorFromResponse(response, 'Failed to create room');
+        // Per spec, 'room:create' ack returns { roomId: "..." }.
+        // Let's resolve with what we get.
+        return response;
     }
 
-    public joinRoom(roomId: string, peerId?: string): Promise<{ ok: boolean, role: string }> {
-        return new Promise((resolve, reject) => {
-            if (!this.socket) return reject('No socket connection');
-            this.socket.emit('room:join', { roomId, peerId }, (response: any) => {
-                if (response && response.ok) resolve(response);
-                else reject(response);
-            });
-        });
+    /**
+     * Joins a room. The second argument is the peerId, or options with a peerId and the room's password.
+     * A wrong password rejects with a WrongPasswordError.
+     */
+    public joinRoom(roomId: string, options: string | JoinRoomOptions = {}): Promise<{ ok: boolean, role: string }> {
+        return this.requestJoin(roomId, typeof options === 'string' ? { peerId: options } : options, false);
     }
 
-    public leaveRoom(roomId: string): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            if (!this.socket) return reject('No socket connection');
-            this.socket.emit('room:leave', { roomId }, (response: any) => {
-                if (response && response.ok) resolve(true);
-                else reject(false);
-            });
+    private async requestJoin(roomId: string, options: JoinRoomOptions, resume: boolean): Promise<{ ok: boolean, role: string }> {
+        const data = { peerId: options.peerId, password: options.password, resume };
+        // Over HTTP while the REST fallback stands in for a socket that never came up
+        const response = !this.socket?.connected && this.restTransport.available
+            ? await this.restTransport.join(roomId, data)
+            : await emitWithAck(this.socket, 'room:join', { roomId, ...data }, this.ackTimeout);
+        if (!response || !response.ok) throw errorFromResponse(response, 'Failed to join room');
+        this.joinedRooms.set(roomId, options);
+        this.flushOutbox(roomId);
+        return response;
+    }
+
+    /**
+     * Rejoins every room held before the socket dropped, then emits `resumed`.
+     * Rooms that refuse us are forgotten and their queued messages rejected.
+     */
+    private async resumeRooms() {
+        const rooms = [...this.joinedRooms];
+        const results = await Promise.allSettled(rooms.map(([roomId, options]) => this.requestJoin(roomId, options, true)));
+
+        const resumed: string[] = [];
+        const failed: string[] = [];
+        results.forEach((result, i) => {
+            const roomId = rooms[i][0];
+            if (result.status === 'fulfilled') {
+                resumed.push(roomId);
+            } else {
+                console.warn(`Failed to rejoin room ${roomId}:`, result.reason);
+                this.joinedRooms.delete(roomId);
+                this.readyRooms.delete(roomId);
+                this.outbox.clear(new GameSocketError('cancelled', 'Could not rejoin room'), roomId);
+                failed.push(roomId);
+            }
         });
+        this.notifyListeners('resumed', { rooms: resumed, failed });
+    }
+
+    /**
+     * Rooms this client is currently in. Several can be joined at once.
+     */
+    public getJoinedRooms(): string[] {
+        return [...this.joinedRooms.keys()];
+    }
+
+    /**
+     * False while a room we are in waits to be rejoined or for its outbox to drain: messages to it are queued or dropped.
+     */
+    public isRoomReady(roomId: string): boolean {
+        return !this.joinedRooms.has(roomId) || this.readyRooms.has(roomId);
+    }
+
+    /**
+     * Events of one room only, for clients that are in several rooms at once.
+     */
+    public channel(roomId: string): RoomChannel<E> {
+        let channel = this.channels.get(roomId);
+        if (!channel) {
+            channel = new RoomChannel<E>(this, roomId);
+            this.channels.set(roomId, channel);
+        }
+        return channel;
+    }
+
+    public async leaveRoom(roomId: string): Promise<boolean> {
+        const response = !this.socket?.connected && this.restTransport.available
+            ? await this.restTransport.leave(roomId)
+            : await emitWithAck(this.socket, 'room:leave', { roomId }, this.ackTimeout);
+        this.joinedRooms.delete(roomId);
+        this.readyRooms.delete(roomId);
+        this.outbox.clear(new GameSocketError('cancelled', 'Left room'), roomId);
+        if (!response || !response.ok) throw errorFromResponse(response, 'Failed to leave room');
+        return true;
+    }
+
+    // Room List
+    /**
+     * Asks the server to push `room:list` events (room created, updated, deleted).
+     * Reference counted: call `unsubscribeRoomList` once for every call.
+     * Sends our user id so the server can leave out private rooms we are not in.
+     */
+    public subscribeRoomList(): Promise<boolean> {
+        // Counted even if the request fails, so the subscription is retried on reconnect
+        this.roomListSubscribers++;
+        if (this.roomListSubscribers > 1) return Promise.resolve(true);
+        return this.request('rooms:subscribe', { userId: this.getUserId() });
+    }
+
+    public unsubscribeRoomList() {
+        if (this.roomListSubscribers === 0) return;
+        if (--this.roomListSubscribers === 0 && this.socket?.connected) {
+            this.socket.emit('rooms:unsubscribe', {});
+        }
+    }
+
+    // Matchmaking
+    /**
+     * Enters the matchmaking queue. Follow progress with `match:status`, `match:found`, `match:ready`
+     * and `match:cancelled` (see `useMatchmaking`).
+     */
+    public async joinQueue(criteria: MatchCriteria): Promise<QueueStatus> {
+        const response = await emitWithAck(this.socket, 'match:queue', criteria, this.ackTimeout);
+        if (!response || !response.ok || !response.ticketId) throw errorFromResponse(response, 'Failed to join the queue');
+        this.matchTicket = response.ticketId;
+        return { ticketId: response.ticketId, position: response.position ?? 0, estimatedWait: response.estimatedWait ?? 0, playersInQueue: response.playersInQueue };
+    }
+
+    public async leaveQueue(): Promise<boolean> {
+        if (!this.matchTicket) return false;
+        const ticketId = this.matchTicket;
+        await this.request('match:cancel', { ticketId });
+        this.matchTicket = null;
+        return true;
+    }
+
+    public acceptMatch(matchId: string): Promise<boolean> {
+        return this.request('match:accept', { matchId, ticketId: this.matchTicket });
+    }
+
+    public declineMatch(matchId: string): Promise<boolean> {
+        const ticketId = this.matchTicket;
+        // Declining takes us out of the queue
+        this.matchTicket = null;
+        return this.request('match:decline', { matchId, ticketId });
+    }
+
+    public isQueued(): boolean {
+        return this.matchTicket !== null;
+    }
+
+    // Moderation (room admins only; others get a NotAdminError)
+    public kickMember(roomId: string, userId: string, reason?: string): Promise<boolean> {
+        return this.request('room:kick', { roomId, userId, reason });
+    }
+
+    public banMember(roomId: string, userId: string, reason?: string): Promise<boolean> {
+        return this.request('room:ban', { roomId, userId, reason });
+    }
+
+    public unbanMember(roomId: string, userId: string): Promise<boolean> {
+        return this.request('room:unban', { roomId, userId });
+    }
+
+    public promoteMember(roomId: string, userId: string): Promise<boolean> {
+        return this.request('room:promote', { roomId, userId });
+    }
+
+    public demoteMember(roomId: string, userId: string): Promise<boolean> {
+        return this.request('room:demote', { roomId, userId });
+    }
+
+    /**
+     * Changes the room's password, privacy or capacity. `null` removes the password or the member limit.
+     */
+    public updateRoom(roomId: string, settings: RoomSettings): Promise<boolean> {
+        return this.request('room:update', { roomId, ...settings });
+    }
+
+    public setRoomPassword(roomId: string, password: string | null): Promise<boolean> {
+        return this.updateRoom(roomId, { password });
+    }
+
+    public setRoomPrivacy(roomId: string, isPrivate: boolean): Promise<boolean> {
+        return this.updateRoom(roomId, { isPrivate });
+    }
+
+    public setRoomCapacity(roomId: string, maxMembers: number | null): Promise<boolean> {
+        return this.updateRoom(roomId, { maxMembers });
+    }
+
+    private async request(event: string, data: any): Promise<boolean> {
+        const response = await emitWithAck(this.socket, event, data, this.ackTimeout);
+        if (!response || !response.ok) throw errorFromResponse(response, `'${event}' rejected by the server`);
+        return true;
     }
 
     // Messaging
-    public emitToRoom(roomId: string, event: string, payload: any): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            if (!this.socket) return reject('No socket connection');
-            this.socket.emit('room:emit', { roomId, event, payload }, (response: any) => {
-                if (response && response.ok) resolve(true);
-                else reject(false);
-            });
+    /**
+     * Sends an event to a room over the socket, or over REST while the fallback is active.
+     * While offline, or until a room we were in has been rejoined and its earlier messages resent, the message
+     * goes to the outbox (see `outbox.setPolicy`) and the promise resolves once it has been resent and acknowledged.
+     * With `delivery: 'unreliable'` the message is not acknowledged and, while offline, dropped (resolves false).
+     */
+    public emitToRoom<K extends RoomEventName<E>>(roomId: string, event: K, payload: RoomEvents<E>[K], options: EmitOptions = {}): Promise<boolean> {
+        const delivery = options.delivery ?? 'reliable';
+        const transport = this.transports.find(t => t.available);
+        // Rooms we never joined aren't held back; the server answers for those
+        const waiting = this.joinedRooms.has(roomId) && !this.readyRooms.has(roomId);
+        if (!transport || waiting) {
+            if (delivery === 'unreliable') return Promise.resolve(false);
+            return this.outbox.enqueue(roomId, event as string, payload);
+        }
+        return transport.emit(roomId, event as string, payload, delivery);
+    }
+
+    // Resends a room's queued messages, then lets new ones through. Flushes of a room run one after
+    // the other, so a flush started before a reconnect has put its messages back before the next one begins.
+    private flushOutbox(roomId: string): Promise<void> {
+        const generation = this.linkGeneration;
+        const flush = (this.flushes.get(roomId) ?? Promise.resolve()).then(() => this.drainOutbox(roomId, generation));
+        this.flushes.set(roomId, flush);
+        flush.finally(() => {
+            if (this.flushes.get(roomId) === flush) this.flushes.delete(roomId);
         });
+        return flush;
+    }
+
+    private async drainOutbox(roomId: string, generation: number) {
+        // Messages emitted meanwhile are queued too, and sent in the same pass
+        for (let messages = this.outbox.take(roomId); messages.length > 0; messages = this.outbox.take(roomId)) {
+            // Send one at a time so the order holds over REST too
+            while (messages.length > 0) {
+                const transport = this.transports.find(t => t.available);
+                // The connection came or went: the room must be rejoined first, so leave the rest queued
+                if (!transport || generation !== this.linkGeneration) {
+                    this.outbox.requeue(messages);
+                    return;
+                }
+                const message = messages.shift()!;
+                await transport.emit(message.roomId, message.event, message.payload)
+                    .then(message.resolve, message.reject);
+            }
+        }
+        if (this.joinedRooms.has(roomId)) this.readyRooms.add(roomId);
+    }
+
+    // Clock Synchronization
+    /**
+     * Current time on the server clock, estimated from ping/pong samples.
+     * Falls back to the local clock until the first sample arrives.
+     */
+    public serverNow(): number {
+        return this.clock.now();
+    }
+
+    public getClockStats(): ClockStats {
+        return this.clock.getStats();
+    }
+
+    /**
+     * Sends a single `time:sync` ping. The server acks with `{ serverTs }`.
+     */
+    public async syncClock(): Promise<ClockStats> {
+        const sentAt = Date.now();
+        const response = await emitWithAck(this.socket, 'time:sync', { clientTs: sentAt }, this.ackTimeout);
+        if (!response || typeof response.serverTs !== 'number') throw errorFromResponse(response, 'Invalid time:sync response');
+        this.clock.addSample(sentAt, response.serverTs, Date.now());
+        const stats = this.clock.getStats();
+        this.notifyListeners('clock:sync', stats);
+        return stats;
+    }
+
+    private startClockSync() {
+        this.stopClockSync();
+        this.clock.reset();
+
+        // A quick burst converges the estimate, then we keep it fresh at a slower pace
+        let burst = this.clockBurstSize;
+        const tick = () => {
+            this.syncClock().catch(err => console.warn('Clock sync failed:', err));
+            if (burst > 0 && --burst === 0) {
+                if (this.clockTimer) clearInterval(this.clockTimer);
+                this.clockTimer = setInterval(tick, this.clockSyncInterval);
+            }
+        };
+        tick();
+        this.clockTimer = setInterval(tick, 200);
+    }
+
+    private stopClockSync() {
+        if (this.clockTimer) {
+            clearInterval(this.clockTimer);
+            this.clockTimer = null;
+        }
+    }
+
+    /**
+     * Registers runtime validators for incoming room events, e.g. `{ chat: p => typeof (p as any)?.text === 'string' }`.
+     * Messages whose payload fails validation are dropped.
+     */
+    public setValidators(validators: EventValidators<E>) {
+        this.validators = { ...this.validators, ...validators };
     }
 
     // Subscription System
-    public on(event: string, callback: EventCallback) {
+    public on<K extends EventName<E>>(event: K, callback: EventCallback<EventPayload<E, K>>) {
         if (!this.listeners.has(event)) {
             this.listeners.set(event, new Set());
 
             // If connected, subscribe on the real socket too
-            if (this.socket) {
-                this.socket.on(event, (data: any) => {
+            if (this.socket && !SocketClient.managedEvents.has(event)) {
+                this.socket.on(event as string, (data: any) => {
                     this.notifyListeners(event, data);
                 });
             }
@@ -157,7 +698,7 @@ export class SocketClient {
         this.listeners.get(event)?.add(callback);
     }
 
-    public off(event: string, callback: EventCallback) {
+    public off<K extends EventName<E>>(event: K, callback: EventCallback<EventPayload<E, K>>) {
         this.listeners.get(event)?.delete(callback);
     }
 
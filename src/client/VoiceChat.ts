@@ -0,0 +1,523 @@
+import type { MediaConnection } from 'peerjs';
+import { SocketClient } from './SocketClient';
+import { PeerClient } from './PeerClient';
+import { NetworkEntityRegistry } from './NetworkEntityRegistry';
+import { CustomEvent, PresenceEvent, Room } from '../types';
+
+/**
+ * Positional audio: remote voices are placed at their speaker's entity and heard from the listener's entity.
+ * Entities may be 2D (`{ x, y }`, y pointing down the screen), 3D (`{ x, y, z }`) or carry a `position` array.
+ */
+export interface PositionalAudioOptions {
+    listenerEntityId: string;
+    // Entity carrying a member's voice. Defaults to the first entity they own in the room.
+    speakerEntityId?: (userId: string) => string | undefined;
+    refDistance?: number; // Default 1
+    maxDistance?: number; // Default 10000
+    rolloff?: number; // Default 1
+}
+
+export interface VoiceJoinOptions {
+    stream?: MediaStream; // Use this stream instead of the microphone. It is not stopped on leave.
+    constraints?: MediaStreamConstraints; // Passed to getUserMedia. Default { audio: true }.
+    muted?: boolean; // Join muted
+    positional?: PositionalAudioOptions;
+}
+
+export interface VoiceParticipant {
+    userId: string;
+    peerId: string;
+    muted: boolean;
+    speaking: boolean;
+    volume: number;
+}
+
+export interface VoiceState {
+    roomId: string | null;
+    muted: boolean;
+    deafened: boolean;
+    speaking: boolean; // Local microphone
+    participants: VoiceParticipant[];
+}
+
+export interface SpeakingEvent {
+    userId: string;
+    speaking: boolean;
+}
+
+interface AudioNodes {
+    source: MediaStreamAudioSourceNode;
+    analyser: AnalyserNode;
+    samples: Float32Array<ArrayBuffer>;
+    lastVoice: number;
+}
+
+interface RemoteVoice extends VoiceParticipant {
+    call: MediaConnection;
+    outgoing: boolean;
+    element: HTMLAudioElement | null;
+    nodes: AudioNodes | null;
+    gain: GainNode | null;
+    panner: PannerNode | null;
+}
+
+type VoiceListener = () => void;
+type SpeakingListener = (event: SpeakingEvent) => void;
+
+const SPEAKING_THRESHOLD = 0.02; // RMS of the time-domain signal
+const SPEAKING_HANGOVER = 300; // ms of silence before speaking stops
+const TICK_INTERVAL = 50;
+
+/**
+ * Singleton running room voice chat over PeerJS media calls (full mesh).
+ * Joining announces `voice:join` to the room; members already in voice call the newcomer,
+ * and calls are answered automatically when they come from a member of the voice room.
+ *
+ * @example
+ * const voice = VoiceChat.getInstance();
+ * await voice.join('lobby');
+ * voice.onSpeaking(({ userId, speaking }) => highlight(userId, speaking));
+ * voice.setMuted(true);
+ */
+export class VoiceChat {
+    private static instance: VoiceChat;
+    private client: SocketClient;
+    private peers: PeerClient;
+    private registry: NetworkEntityRegistry;
+    private rooms: Map<string, Room> = new Map();
+
+    private roomId: string | null = null;
+    private localStream: MediaStream | null = null;
+    private ownsStream = false;
+    private localNodes: AudioNodes | null = null;
+    private localSpeaking = false;
+    private muted = false;
+    private deafened = false;
+    private mutedBeforeDeafen = false;
+    private positional: PositionalAudioOptions | null = null;
+
+    private audio: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private remotes: Map<string, RemoteVoice> = new Map(); // peerId -> voice
+    private tickTimer: ReturnType<typeof setInterval> | null = null;
+
+    private listeners: Set<VoiceListener> = new Set();
+    private speakingListeners: Set<SpeakingListener> = new Set();
+
+    private constructor(client: SocketClient, peers: PeerClient, registry: NetworkEntityRegistry) {
+        this.client = client;
+        this.peers = peers;
+        this.registry = registry;
+
+        this.peers.on('call', this.handleCall);
+        this.client.on('voice:join', this.handleVoiceJoin);
+        this.client.on('voice:leave', (data: CustomEvent) => {
+            if (data.roomId !== this.roomId) return;
+            this.dropUser(data.from);
+        });
+        this.client.on('voice:mute', (data: CustomEvent<{ muted: boolean }>) => {
+            if (data.roomId !== this.roomId) return;
+            this.remotes.forEach(remote => {
+                if (remote.userId === data.from) remote.muted = !!data.payload?.muted;
+            });
+            this.notify();
+        });
+        this.client.on('room:presence', (data: PresenceEvent) => {
+            if (data.roomId === this.roomId && data.event === 'leave') this.dropUser(data.userId);
+        });
+    }
+
+    public static getInstance(): VoiceChat {
+        if (!VoiceChat.instance) {
+            VoiceChat.instance = new VoiceChat(SocketClient.getInstance(), PeerClient.getInstance(), NetworkEntityRegistry.getInstance());
+        }
+        return VoiceChat.instance;
+    }
+
+    /**
+     * Keeps the member list used to accept calls. Pass null when leaving the room, which also leaves its voice chat.
+     */
+    public setRoom(roomId: string, room: Room | null) {
+        if (room) {
+            this.rooms.set(roomId, room);
+            return;
+        }
+        this.rooms.delete(roomId);
+        if (roomId === this.roomId) this.leave();
+    }
+
+    /**
+     * Joins the voice chat of a room we are in, leaving any other voice room.
+     * Uses the microphone unless a stream is given.
+     */
+    public async join(roomId: string, options: VoiceJoinOptions = {}): Promise<void> {
+        if (!this.client.getJoinedRooms().includes(roomId)) {
+            throw new Error(`Join room ${roomId} before joining its voice chat`);
+        }
+        if (!await this.peers.ready().catch(() => null)) throw new Error('Peer-to-peer is unavailable');
+        if (this.roomId) this.leave();
+
+        const stream = options.stream ?? await navigator.mediaDevices.getUserMedia(options.constraints ?? { audio: true });
+        this.localStream = stream;
+        this.ownsStream = !options.stream;
+        this.applyMute(options.muted ?? this.muted);
+        this.roomId = roomId;
+        this.positional = options.positional ?? null;
+        this.setupAudio();
+        this.localNodes = this.analyse(stream);
+
+        // Members already in voice answer by calling us
+        this.client.emitToRoom(roomId, 'voice:join', { muted: this.muted })
+            .catch(err => console.warn('Failed to announce voice join:', err));
+        this.tickTimer = setInterval(this.tick, TICK_INTERVAL);
+        this.notify();
+    }
+
+    public leave() {
+        const roomId = this.roomId;
+        if (!roomId) return;
+
+        if (this.client.getJoinedRooms().includes(roomId)) {
+            this.client.emitToRoom(roomId, 'voice:leave', {})
+                .catch(err => console.warn('Failed to announce voice leave:', err));
+        }
+        [...this.remotes.keys()].forEach(peerId => this.dropPeer(peerId));
+        if (this.tickTimer) clearInterval(this.tickTimer);
+        this.tickTimer = null;
+
+        this.localNodes?.source.disconnect();
+        this.localNodes = null;
+        if (this.ownsStream) this.localStream?.getTracks().forEach(track => track.stop());
+        this.localStream = null;
+        const me = this.client.getUserId();
+        if (this.localSpeaking && me) this.notifySpeaking(me, false);
+        this.localSpeaking = false;
+        this.roomId = null;
+        this.positional = null;
+
+        this.audio?.close().catch(() => { });
+        this.audio = null;
+        this.master = null;
+        this.notify();
+    }
+
+    public isInVoice(): boolean {
+        return this.roomId !== null;
+    }
+
+    /**
+     * Mutes the microphone. The stream keeps running, so unmuting is instant.
+     */
+    public setMuted(muted: boolean) {
+        if (this.deafened && !muted) this.deafened = false;
+        this.applyMute(muted);
+        this.applyDeafen();
+        this.notify();
+    }
+
+    /**
+     * Silences every remote voice. Deafening also mutes; undeafening restores the previous mute state.
+     */
+    public setDeafened(deafened: boolean) {
+        if (deafened === this.deafened) return;
+        if (deafened) this.mutedBeforeDeafen = this.muted;
+        this.deafened = deafened;
+        this.applyMute(deafened ? true : this.mutedBeforeDeafen);
+        this.applyDeafen();
+        this.notify();
+    }
+
+    /**
+     * Volume of one member's voice, 0 to 1 (higher values amplify).
+     */
+    public setVolume(userId: string, volume: number) {
+        this.remotes.forEach(remote => {
+            if (remote.userId !== userId) return;
+            remote.volume = volume;
+            if (remote.gain) remote.gain.gain.value = volume;
+        });
+        this.notify();
+    }
+
+    /**
+     * Enables positional audio, or turns it off with null.
+     */
+    public setPositional(options: PositionalAudioOptions | null) {
+        this.positional = options;
+        this.remotes.forEach(remote => this.connectOutput(remote));
+    }
+
+    public getState(): VoiceState {
+        return {
+            roomId: this.roomId,
+            muted: this.muted,
+            deafened: this.deafened,
+            speaking: this.localSpeaking,
+            participants: [...this.remotes.values()].map(({ userId, peerId, muted, speaking, volume }) => ({ userId, peerId, muted, speaking, volume })),
+        };
+    }
+
+    /**
+     * Called whenever the voice state changes (join, leave, participants, mute, speaking).
+     */
+    public subscribe(listener: VoiceListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Called when someone, us included, starts or stops speaking.
+     */
+    public onSpeaking(listener: SpeakingListener): () => void {
+        this.speakingListeners.add(listener);
+        return () => {
+            this.speakingListeners.delete(listener);
+        };
+    }
+
+    // Calls
+    private handleVoiceJoin = (data: CustomEvent<{ muted: boolean }>) => {
+        if (!this.roomId || data.roomId !== this.roomId || !this.localStream) return;
+        if (data.from === this.client.getUserId()) return;
+
+        const peerId = this.findPeerId(data.from);
+        if (!peerId) {
+            console.warn('No peer known for voice member', data.from);
+            return;
+        }
+        // Our previous call to them is stale: they left and came back
+        if (this.remotes.has(peerId)) this.dropPeer(peerId);
+
+        const call = this.peers.call(peerId, this.localStream, { roomId: this.roomId, voice: true, muted: this.muted });
+        if (call) this.track(call, data.from, !!data.payload?.muted, true);
+    };
+
+    private handleCall = (call: MediaConnection) => {
+        const userId = this.peers.getPeerUser(call.peer);
+        const room = this.roomId ? this.rooms.get(this.roomId) : undefined;
+        const isMember = !!userId && !!room?.members.some(m => m.userId === userId);
+
+        if (!this.localStream || call.metadata?.roomId !== this.roomId || !isMember) {
+            call.close();
+            return;
+        }
+
+        // Both sides called at once: keep the call placed by the lower peerId
+        const existing = this.remotes.get(call.peer);
+        if (existing?.outgoing && (this.peers.myPeerId ?? '') < call.peer) {
+            call.close();
+            return;
+        }
+        if (existing) this.dropPeer(call.peer);
+
+        this.peers.answer(call, this.localStream);
+        this.track(call, userId!, !!call.metadata?.muted, false);
+    };
+
+    private track(call: MediaConnection, userId: string, muted: boolean, outgoing: boolean) {
+        const remote: RemoteVoice = {
+            userId, peerId: call.peer, muted, speaking: false, volume: 1,
+            call, outgoing, element: null, nodes: null, gain: null, panner: null,
+        };
+        this.remotes.set(call.peer, remote);
+
+        call.on('stream', (stream: MediaStream) => {
+            if (this.remotes.get(call.peer) !== remote) return;
+            this.attach(remote, stream);
+            this.notify();
+        });
+        const drop = () => {
+            if (this.remotes.get(call.peer) === remote) this.dropPeer(call.peer);
+        };
+        call.on('close', drop);
+        call.on('error', (err: any) => {
+            console.warn('Voice call error with', userId, err);
+            drop();
+        });
+        this.notify();
+    }
+
+    private dropUser(userId: string) {
+        this.remotes.forEach(remote => {
+            if (remote.userId === userId) this.dropPeer(remote.peerId);
+        });
+    }
+
+    private dropPeer(peerId: string) {
+        const remote = this.remotes.get(peerId);
+        if (!remote) return;
+        this.remotes.delete(peerId);
+
+        remote.call.close();
+        remote.nodes?.source.disconnect();
+        remote.gain?.disconnect();
+        remote.panner?.disconnect();
+        if (remote.element) remote.element.srcObject = null;
+        if (remote.speaking) this.notifySpeaking(remote.userId, false);
+        this.notify();
+    }
+
+    private findPeerId(userId: string): string | null {
+        const member = this.roomId ? this.rooms.get(this.roomId)?.members.find(m => m.userId === userId) : undefined;
+        return member?.peerId ?? this.peers.getPeerId(userId);
+    }
+
+    // Audio graph
+    private setupAudio() {
+        if (this.audio) return;
+        this.audio = new AudioContext();
+        this.master = this.audio.createGain();
+        this.master.connect(this.audio.destination);
+        this.applyDeafen();
+        // Created outside a user gesture, the context starts suspended
+        this.audio.resume().catch(() => { });
+    }
+
+    private analyse(stream: MediaStream): AudioNodes | null {
+        if (!this.audio) return null;
+        const source = this.audio.createMediaStreamSource(stream);
+        const analyser = this.audio.createAnalyser();
+        analyser.fftSize = 512;
+        source.connect(analyser);
+        return { source, analyser, samples: new Float32Array(analyser.fftSize), lastVoice: 0 };
+    }
+
+    private attach(remote: RemoteVoice, stream: MediaStream) {
+        // Chrome only feeds remote WebRTC audio to Web Audio once it is attached to a media element
+        const element = new Audio();
+        element.srcObject = stream;
+        element.muted = true;
+        element.play().catch(() => { });
+        remote.element = element;
+
+        remote.nodes = this.analyse(stream);
+        if (!this.audio || !remote.nodes) return;
+        remote.gain = this.audio.createGain();
+        remote.gain.gain.value = remote.volume;
+        remote.nodes.source.connect(remote.gain);
+        this.connectOutput(remote);
+    }
+
+    // gain -> [panner] -> master
+    private connectOutput(remote: RemoteVoice) {
+        if (!this.audio || !this.master || !remote.gain) return;
+        remote.gain.disconnect();
+        remote.panner?.disconnect();
+        remote.panner = null;
+
+        if (!this.positional) {
+            remote.gain.connect(this.master);
+            return;
+        }
+        const { refDistance = 1, maxDistance = 10000, rolloff = 1 } = this.positional;
+        remote.panner = new PannerNode(this.audio, {
+            panningModel: 'HRTF',
+            distanceModel: 'inverse',
+            refDistance,
+            maxDistance,
+            rolloffFactor: rolloff,
+        });
+        remote.gain.connect(remote.panner);
+        remote.panner.connect(this.master);
+    }
+
+    private applyMute(muted: boolean) {
+        const changed = muted !== this.muted;
+        this.muted = muted;
+        this.localStream?.getAudioTracks().forEach(track => {
+            track.enabled = !muted;
+        });
+        if (changed && this.roomId) {
+            this.client.emitToRoom(this.roomId, 'voice:mute', { muted })
+                .catch(err => console.warn('Failed to announce mute:', err));
+        }
+    }
+
+    private applyDeafen() {
+        if (this.master) this.master.gain.value = this.deafened ? 0 : 1;
+    }
+
+    // Speaking detection and positions, every TICK_INTERVAL
+    private tick = () => {
+        const now = Date.now();
+
+        const local = this.detect(this.localNodes, now) && !this.muted;
+        if (local !== this.localSpeaking) {
+            this.localSpeaking = local;
+            const me = this.client.getUserId();
+            if (me) this.notifySpeaking(me, local);
+            this.notify();
+        }
+
+        this.remotes.forEach(remote => {
+            const speaking = this.detect(remote.nodes, now);
+            if (speaking !== remote.speaking) {
+                remote.speaking = speaking;
+                this.notifySpeaking(remote.userId, speaking);
+                this.notify();
+            }
+        });
+
+        if (this.positional) this.updatePositions();
+    };
+
+    private detect(nodes: AudioNodes | null, now: number): boolean {
+        if (!nodes) return false;
+        nodes.analyser.getFloatTimeDomainData(nodes.samples);
+        let sum = 0;
+        for (let i = 0; i < nodes.samples.length; i++) sum += nodes.samples[i] * nodes.samples[i];
+        if (Math.sqrt(sum / nodes.samples.length) > SPEAKING_THRESHOLD) nodes.lastVoice = now;
+        return now - nodes.lastVoice < SPEAKING_HANGOVER;
+    }
+
+    private updatePositions() {
+        const roomId = this.roomId;
+        if (!this.audio || !this.positional || !roomId) return;
+        const listener = this.readPosition(this.registry.getState(roomId, this.positional.listenerEntityId));
+        if (!listener) return;
+        const time = this.audio.currentTime;
+        const audioListener = this.audio.listener;
+        if (audioListener.positionX) {
+            setParam(audioListener.positionX, listener[0], time);
+            setParam(audioListener.positionY, listener[1], time);
+            setParam(audioListener.positionZ, listener[2], time);
+        } else {
+            // Firefox has no AudioParams on the listener
+            audioListener.setPosition(...listener);
+        }
+
+        this.remotes.forEach(remote => {
+            if (!remote.panner) return;
+            const entityId = this.positional?.speakerEntityId?.(remote.userId)
+                ?? this.registry.getAll().find(e => e.roomId === roomId && e.owner === remote.userId)?.entityId;
+            // No entity for them: keep their voice centred on us
+            const position = (entityId && this.readPosition(this.registry.getState(roomId, entityId))) || listener;
+            setParam(remote.panner.positionX, position[0], time);
+            setParam(remote.panner.positionY, position[1], time);
+            setParam(remote.panner.positionZ, position[2], time);
+        });
+    }
+
+    // 2D states lie on the ground plane, screen y going away from the listener's default facing
+    private readPosition(state: Record<string, any> | undefined): [number, number, number] | null {
+        if (!state) return null;
+        if (Array.isArray(state.position)) return [state.position[0] ?? 0, state.position[1] ?? 0, state.position[2] ?? 0];
+        if (typeof state.x !== 'number' || typeof state.y !== 'number') return null;
+        if (typeof state.z === 'number') return [state.x, state.y, state.z];
+        return [state.x, 0, state.y];
+    }
+
+    private notifySpeaking(userId: string, speaking: boolean) {
+        this.speakingListeners.forEach(cb => cb({ userId, speaking }));
+    }
+
+    private notify() {
+        this.listeners.forEach(cb => cb());
+    }
+}
+
+const setParam = (param: AudioParam, value: number, time: number) => {
+    param.setTargetAtTime(value, time, 0.05);
+};
@@ -0,0 +1,109 @@
+export type GameSocketErrorCode =
+    | 'timeout'
+    | 'not-connected'
+    | 'room-full'
+    | 'banned'
+    | 'wrong-password'
+    | 'not-admin'
+    | 'server-rejected'
+    | 'cancelled';
+
+/**
+ * Base class of every error the client rejects with. Switch on `code`, or use `instanceof` on the subclasses.
+ */
+export class GameSocketError extends Error {
+    public readonly code: GameSocketErrorCode;
+    public readonly details?: any; // Raw server response or underlying error
+
+    constructor(code: GameSocketErrorCode, message: string, details?: any) {
+        super(message);
+        this.name = 'GameSocketError';
+        this.code = code;
+        this.details = details;
+    }
+}
+
+/**
+ * The server did not acknowledge in time.
+ */
+export class TimeoutError extends GameSocketError {
+    public readonly event: string;
+    public readonly timeout: number;
+
+    constructor(event: string, timeout: number) {
+        super('timeout', `No acknowledgement for '${event}' within ${timeout}ms`);
+        this.name = 'TimeoutError';
+        this.event = event;
+        this.timeout = timeout;
+    }
+}
+
+export class NotConnectedError extends GameSocketError {
+    constructor(message: string = 'No socket connection') {
+        super('not-connected', message);
+        this.name = 'NotConnectedError';
+    }
+}
+
+export class RoomFullError extends GameSocketError {
+    constructor(message: string = 'Room is full', details?: any) {
+        super('room-full', message, details);
+        this.name = 'RoomFullError';
+    }
+}
+
+export class BannedError extends GameSocketError {
+    constructor(message: string = 'You are banned from this room', details?: any) {
+        super('banned', message, details);
+        this.name = 'BannedError';
+    }
+}
+
+export class WrongPasswordError extends GameSocketError {
+    constructor(message: string = 'Wrong room password', details?: any) {
+        super('wrong-password', message, details);
+        this.name = 'WrongPasswordError';
+    }
+}
+
+export class NotAdminError extends GameSocketError {
+    constructor(message: string = 'Only room admins can do this', details?: any) {
+        super('not-admin', message, details);
+        this.name = 'NotAdminError';
+    }
+}
+
+/**
+ * The server answered but refused, for a reason without a dedicated class.
+ */
+export class ServerRejectedError extends GameSocketError {
+    constructor(message: string = 'Request rejected by the server', details?: any) {
+        super('server-rejected', message, details);
+        this.name = 'ServerRejectedError';
+    }
+}
+
+/**
+ * Maps a negative server ack (`{ ok: false, error, code? }`) to the matching error class.
+ */
+export const errorFromResponse = (response: any, fallback: string = 'Request rejected by the server'): GameSocketError => {
+    const message: string = typeof response?.error === 'string' ? response.error : typeof response?.message === 'string' ? response.message : fallback;
+    // Servers send codes like 'ROOM_FULL', 'room-full' or only a sentence
+    const code = String(response?.code ?? response?.error ?? '').toLowerCase().replace(/[\s_]+/g, '-');
+
+    if (code.includes('full')) return new RoomFullError(message, response);
+    if (code.includes('banned')) return new BannedError(message, response);
+    if (code.includes('password')) return new WrongPasswordError(message, response);
+    if (code.includes('admin') || code.includes('forbidden') || code.includes('permission')) return new NotAdminError(message, response);
+    return new ServerRejectedError(message, response);
+};
+
+/**
+ * Wraps anything thrown into a GameSocketError, leaving existing ones untouched.
+ */
+export const toGameSocketError = (err: unknown, fallback: string = 'Request failed'): GameSocketError => {
+    if (err instanceof GameSocketError) return err;
+    if (err instanceof Error) return new ServerRejectedError(err.message, err);
+    if (typeof err === 'string') return new ServerRejectedError(err, err);
+    return errorFromResponse(err, fallback);
+};
@@ -0,0 +1,211 @@
+import { ByteWriter, ByteReader, EntitySchema, writeValue, readValue, writeEntityUpdates, readEntityUpdates } from '../logic/binaryCodec';
+
+/**
+ * Message sizes for one direction or one event. `jsonBytes` is what the same messages weigh as JSON,
+ * so the two can be compared.
+ */
+export interface SizeStats {
+    messages: number;
+    bytes: number;
+    jsonBytes: number;
+}
+
+export interface SerializerStats {
+    sent: SizeStats;
+    received: SizeStats;
+    events: Record<string, { sent: SizeStats; received: SizeStats }>;
+}
+
+/**
+ * Turns room event payloads into what goes on the wire, and back.
+ * `encode` returns either the payload itself (sent as JSON) or bytes; `decode` must accept both,
+ * since messages relayed over REST, or sent by a client using another serializer, arrive as JSON.
+ */
+export interface Serializer {
+    readonly name: string;
+    encode(event: string, payload: any): any;
+    decode(event: string, data: any): any;
+    getStats(): SerializerStats;
+    resetStats(): void;
+}
+
+export type SerializerOption = 'json' | 'binary' | Serializer;
+
+const emptySize = (): SizeStats => ({ messages: 0, bytes: 0, jsonBytes: 0 });
+
+const encoder = new TextEncoder();
+
+// UTF-8 bytes, not string length, so multi-byte characters are counted right
+const jsonSize = (payload: any): number => encoder.encode(JSON.stringify(payload ?? null)).length;
+
+/**
+ * True for payloads received as bytes (ArrayBuffer in browsers, Buffer / Uint8Array elsewhere).
+ */
+export const isBinary = (data: unknown): data is ArrayBuffer | ArrayBufferView => {
+    return data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+};
+
+const toBytes = (data: ArrayBuffer | ArrayBufferView): Uint8Array => {
+    return data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+};
+
+// Size accounting shared by the serializers
+abstract class MeasuredSerializer implements Serializer {
+    public abstract readonly name: string;
+    protected measure: boolean;
+    private stats: SerializerStats = { sent: emptySize(), received: emptySize(), events: {} };
+
+    constructor(measure: boolean) {
+        this.measure = measure;
+    }
+
+    public abstract encode(event: string, payload: any): any;
+    public abstract decode(event: string, data: any): any;
+
+    protected record(direction: 'sent' | 'received', event: string, bytes: number, jsonBytes: number) {
+        if (!this.measure) return;
+        if (!this.stats.events[event]) this.stats.events[event] = { sent: emptySize(), received: emptySize() };
+        [this.stats[direction], this.stats.events[event][direction]].forEach(size => {
+            size.messages++;
+            size.bytes += bytes;
+            size.jsonBytes += jsonBytes;
+        });
+    }
+
+    public getStats(): SerializerStats {
+        return structuredClone(this.stats);
+    }
+
+    public resetStats() {
+        this.stats = { sent: emptySize(), received: emptySize(), events: {} };
+    }
+}
+
+export interface SerializerOptions {
+    stats?: boolean; // Record message sizes (serializes every JSON payload once more). Default false.
+}
+
+/**
+ * Sends payloads as they are (Socket.IO and PeerJS serialize them). Readable in the network inspector,
+ * which makes it the one to debug with.
+ */
+export class JsonSerializer extends MeasuredSerializer {
+    public readonly name = 'json';
+
+    constructor(options: SerializerOptions = {}) {
+        super(options.stats ?? false);
+    }
+
+    public encode(event: string, payload: any): any {
+        if (this.measure) {
+            const size = jsonSize(payload);
+            this.record('sent', event, size, size);
+        }
+        return payload;
+    }
+
+    public decode(event: string, data: any): any {
+        if (this.measure) {
+            const size = jsonSize(data);
+            this.record('received', event, size, size);
+        }
+        return data;
+    }
+}
+
+export interface BinarySerializerOptions extends SerializerOptions {
+    schemas?: Record<string, EntitySchema>; // Entity schemas by type, as with `defineSchema`
+}
+
+// First byte of a binary message
+const enum MessageKind {
+    Value = 1,
+    Snapshot = 2, // world:snapshot
+    EntityUpdate = 3, // entity:update
+}
+
+/**
+ * Compact binary encoding. Entity updates whose type has a schema are written field by field
+ * (varints, quantized floats and angles); everything else goes through a tagged encoding
+ * that is still smaller than JSON.
+ * Every client of a room must use the binary serializer with the same schemas.
+ *
+ * @example
+ * const serializer = new BinarySerializer();
+ * serializer.defineSchema('ship', {
+ *     x: { type: 'quantized', min: 0, max: 4096 },
+ *     y: { type: 'quantized', min: 0, max: 4096 },
+ *     rotation: { type: 'angle' },
+ *     hp: 'uint',
+ * });
+ * connect(url, auth, { serializer });
+ */
+export class BinarySerializer extends MeasuredSerializer {
+    public readonly name = 'binary';
+    private schemas: Map<string, EntitySchema> = new Map();
+
+    constructor(options: BinarySerializerOptions = {}) {
+        super(options.stats ?? false);
+        Object.entries(options.schemas ?? {}).forEach(([type, schema]) => this.defineSchema(type, schema));
+    }
+
+    /**
+     * Declares how the state of an entity type is encoded. Applies to entities spawned with that type,
+     * and to entities whose `schema` option names it.
+     */
+    public defineSchema(type: string, schema: EntitySchema) {
+        this.schemas.set(type, schema);
+    }
+
+    public getSchema(type: string): EntitySchema | undefined {
+        return this.schemas.get(type);
+    }
+
+    public encode(event: string, payload: any): Uint8Array {
+        const writer = new ByteWriter();
+        if (event === 'world:snapshot' && Array.isArray(payload?.updates) && Object.keys(payload).length === 1) {
+            writer.writeUint8(MessageKind.Snapshot);
+            writeEntityUpdates(writer, payload.updates, this.schemas);
+        } else if (event === 'entity:update' && typeof payload?.entityId === 'string') {
+            writer.writeUint8(MessageKind.EntityUpdate);
+            writeEntityUpdates(writer, [payload], this.schemas);
+        } else {
+            writer.writeUint8(MessageKind.Value);
+            writeValue(writer, payload);
+        }
+        const bytes = writer.finish();
+        if (this.measure) this.record('sent', event, bytes.length, jsonSize(payload));
+        return bytes;
+    }
+
+    public decode(event: string, data: any): any {
+        if (!isBinary(data)) {
+            if (this.measure) {
+                const size = jsonSize(data);
+                this.record('received', event, size, size);
+            }
+            return data;
+        }
+
+        const bytes = toBytes(data);
+        const reader = new ByteReader(bytes);
+        const kind = reader.readUint8();
+        let payload: any;
+        if (kind === MessageKind.Snapshot) payload = { updates: readEntityUpdates(reader, this.schemas) };
+        else if (kind === MessageKind.EntityUpdate) payload = readEntityUpdates(reader, this.schemas)[0];
+        else if (kind === MessageKind.Value) payload = readValue(reader);
+        else throw new RangeError(`Unknown binary message kind ${kind}`);
+
+        if (this.measure) this.record('received', event, bytes.length, jsonSize(payload));
+        return payload;
+    }
+}
+
+/**
+ * Resolves the `serializer` connect option.
+ */
+export const createSerializer = (option: SerializerOption = 'json'): Serializer => {
+    if (option === 'json') return new JsonSerializer();
+    if (option === 'binary') return new BinarySerializer();
+    return option;
+};
@@ -0,0 +1,165 @@
+import { Socket } from 'socket.io-client';
+import { RestApiClient } from './RestApiClient';
+import { Delivery, PolledEvent, TransportKind } from '../types';
+import { NotConnectedError, TimeoutError, errorFromResponse } from './errors';
+import type { Serializer } from './serializers';
+
+/**
+ * Emits with an acknowledgement, rejecting with a TimeoutError if none arrives within `timeout` ms,
+ * or straight away with a NotConnectedError while the socket is down.
+ * Resolves with the raw ack; callers decide what counts as a refusal.
+ */
+export const emitWithAck = (socket: Socket | null, event: string, data: any, timeout: number): Promise<any> => {
+    return new Promise((resolve, reject) => {
+        if (!socket?.connected) return reject(new NotConnectedError());
+        socket.timeout(timeout).emit(event, data, (err: Error | null, response: any) => {
+            if (err) reject(new TimeoutError(event, timeout));
+            else resolve(response);
+        });
+    });
+};
+
+/**
+ * A way of sending room events. SocketClient picks the first available transport.
+ */
+export interface Transport {
+    readonly kind: TransportKind;
+    readonly available: boolean;
+    emit(roomId: string, event: string, payload: any, delivery?: Delivery): Promise<boolean>;
+}
+
+/**
+ * Socket.IO transport (WebSocket, or HTTP polling until the upgrade).
+ * Payloads go through the client's serializer; binary ones travel as Socket.IO attachments.
+ */
+export class SocketTransport implements Transport {
+    private getSocket: () => Socket | null;
+    private getTimeout: () => number;
+    private getSerializer: () => Serializer;
+
+    constructor(getSocket: () => Socket | null, getTimeout: () => number, getSerializer: () => Serializer) {
+        this.getSocket = getSocket;
+        this.getTimeout = getTimeout;
+        this.getSerializer = getSerializer;
+    }
+
+    public get kind(): TransportKind {
+        return this.getSocket()?.io.engine?.transport?.name === 'websocket' ? 'websocket' : 'polling';
+    }
+
+    public get available(): boolean {
+        return !!this.getSocket()?.connected;
+    }
+
+    public async emit(roomId: string, event: string, payload: any, delivery: Delivery = 'reliable'): Promise<boolean> {
+        const data = { roomId, event, payload: this.getSerializer().encode(event, payload) };
+        if (delivery === 'unreliable') {
+            const socket = this.getSocket();
+            if (!socket) throw new NotConnectedError();
+            // Dropped rather than buffered when the connection can't take it; no ack to wait for
+            socket.volatile.emit('room:emit', data);
+            return true;
+        }
+        const response = await emitWithAck(this.getSocket(), 'room:emit', data, this.getTimeout());
+        if (!response?.ok) throw errorFromResponse(response, `'${event}' rejected by the server`);
+        return true;
+    }
+}
+
+/**
+ * Fallback used while the socket can't connect: sends through `RestApiClient.emitToSocket`
+ * and receives room events by long-polling.
+ */
+export class RestTransport implements Transport {
+    public readonly kind: TransportKind = 'rest';
+    private rest: RestApiClient;
+    private getUserId: () => string | null;
+    private getRoomIds: () => string[];
+    private onEvent: (event: PolledEvent) => void;
+    private active = false;
+    private generation = 0; // Bumped on every start/stop, so a poll loop outliving its session exits
+    private cursor: string | undefined;
+    private retryDelay = 2000; // ms to wait after a failed poll
+
+    constructor(rest: RestApiClient, getUserId: () => string | null, getRoomIds: () => string[], onEvent: (event: PolledEvent) => void) {
+        this.rest = rest;
+        this.getUserId = getUserId;
+        this.getRoomIds = getRoomIds;
+        this.onEvent = onEvent;
+    }
+
+    public get available(): boolean {
+        return this.active;
+    }
+
+    public start() {
+        if (this.active) return;
+        this.active = true;
+        this.poll(++this.generation);
+    }
+
+    public stop() {
+        this.active = false;
+        this.generation++;
+        this.cursor = undefined;
+    }
+
+    public async emit(roomId: string, event: string, payload: any): Promise<boolean> {
+        if (!this.active) throw new NotConnectedError('REST transport not active');
+        const res = await this.request(() => this.rest.emitToSocket(roomId, event, payload, this.getUserId() ?? undefined));
+        if (!res?.success) throw errorFromResponse(res, `'${event}' rejected by the server`);
+        return true;
+    }
+
+    /**
+     * Joins a room over HTTP, for when the socket never connected. Resolves with the server's raw answer.
+     */
+    public async join(roomId: string, options: { peerId?: string; password?: string; resume?: boolean }): Promise<any> {
+        const userId = this.getUserId();
+        if (!this.active || !userId) throw new NotConnectedError('REST transport not active');
+        return this.request(() => this.rest.joinRoom(roomId, userId, options));
+    }
+
+    public async leave(roomId: string): Promise<any> {
+        const userId = this.getUserId();
+        if (!this.active || !userId) throw new NotConnectedError('REST transport not active');
+        return this.request(() => this.rest.leaveRoom(roomId, userId));
+    }
+
+    private async request<T>(send: () => Promise<T>): Promise<T> {
+        try {
+            return await send();
+        } catch (err: any) {
+            // HTTP errors carry the server's reason in the body; no response means we're offline
+            if (err?.response) throw errorFromResponse(err.response.data, err.message);
+            throw new NotConnectedError(err?.message);
+        }
+    }
+
+    private async poll(generation: number) {
+        // A stop() followed by start() begins a new loop; this one ends at its next check
+        while (this.active && generation === this.generation) {
+            const userId = this.getUserId();
+            const roomIds = this.getRoomIds();
+            if (!userId || roomIds.length === 0) {
+                await this.wait(this.retryDelay);
+                continue;
+            }
+
+            try {
+                const res = await this.rest.pollEvents(userId, roomIds, this.cursor);
+                // The socket may have come back while we were waiting
+                if (!this.active || generation !== this.generation) return;
+                this.cursor = res.cursor ?? this.cursor;
+                res.events?.forEach(e => this.onEvent(e));
+            } catch (err) {
+                console.warn('REST poll failed:', err);
+                await this.wait(this.retryDelay);
+            }
+        }
+    }
+
+    private wait(ms: number) {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
@@ -10,15 +10,19 @@ interface ChatMessage {
 
 /**
  * A simple chat component that users Socket.IO to send/receive messages in the current room.
+ * Pass `roomId` to chat in a specific joined room; only that room's messages are shown.
  */
-export const ChatBox: React.FC = () => {
-    const { client, isConnected, me, currentRoom } = useGameSocket();
+export const ChatBox: React.FC<{ roomId?: string }> = ({ roomId }) => {
+    const { client, isConnected, me, currentRoom: activeRoom, getRoom } = useGameSocket();
+    const currentRoom = roomId ? getRoom(roomId) : activeRoom;
+    const chatRoomId = currentRoom?.roomId;
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState('');
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
-        if (!client) return;
+        if (!client || !chatRoomId) return;
+        setMessages([]);
 
         const onMessage = (data: any) => {
             // Expecting { roomId, from, event: 'chat', payload: { text }, ts }
@@ -33,12 +37,9 @@ export const ChatBox: React.FC = () => {
             }]);
         };
 
-        client.on('chat', onMessage);
-
-        return () => {
-            client.off('chat', onMessage);
-        };
-    }, [client]);
+        // Scoped to the room so chats of other joined rooms don't show up here
+        return client.channel(chatRoomId).on('chat', onMessage);
+    }, [client, chatRoomId]);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -48,7 +49,7 @@ export const ChatBox: React.FC = () => {
         if (!input.trim() || !isConnected || !currentRoom) return;
 
         // Broadcast
-        client.emitToRoom(currentRoom.roomId, 'chat', { text: input });
+        client.channel(currentRoom.roomId).emit('chat', { text: input });
 
         // Optimistic add (optional, but good for UX)
         // Actually the server might echo it back? 
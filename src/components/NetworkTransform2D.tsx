@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useNetworkEntity } from '../hooks/useNetworkEntity';
 
 interface NetworkTransform2DProps {
@@ -18,7 +18,7 @@ interface NetworkTransform2DProps {
  * 
  * @param props 
  * @param props.entityId Unique ID for the entity.
- * @param props.isOwner Whether this client controls the entity.
+ * @param props.isOwner Whether this client claims the entity. If another client already owns it, ownership is requested instead.
  * @param props.x Current X position (if isOwner).
  * @param props.y Current Y position (if isOwner).
  * @param props.rotation Current rotation in degrees (if isOwner).
@@ -31,16 +31,18 @@ export const NetworkTransform2D: React.FC<NetworkTransform2DProps> = ({
     x,
     y,
     rotation,
-    isOwner = false,
+    isOwner,
     className,
     children,
     style
 }) => {
-    const [state, setNetworkState] = useNetworkEntity({
+    const elementRef = useRef<HTMLDivElement>(null);
+    const [, setNetworkState, { entity, isOwner: ownsEntity }] = useNetworkEntity({
         entityId,
         initialState: initialPos,
         isOwner,
-        broadcastRate: 50 // 20Hz update
+        broadcastRate: isOwner ? 50 : undefined, // 20Hz while we drive it; mounted passively, the entity keeps its own rate
+        render: false
     });
 
     // Sync props to network state if owner
@@ -54,22 +56,35 @@ export const NetworkTransform2D: React.FC<NetworkTransform2DProps> = ({
         }
     }, [x, y, rotation, isOwner, setNetworkState]);
 
+    // Write the transform straight to the DOM every frame instead of re-rendering the component
+    useEffect(() => {
+        if (!entity) return;
+
+        let animationFrameId: number;
+        const apply = () => {
+            const state = entity.getState();
+            const el = elementRef.current;
+            if (el) {
+                el.style.left = `${state.x}px`;
+                el.style.top = `${state.y}px`;
+                el.style.transform = `rotate(${state.rotation}deg)`;
+            }
+            animationFrameId = requestAnimationFrame(apply);
+        };
+        apply();
+        return () => cancelAnimationFrame(animationFrameId);
+    }, [entity]);
+
     return (
         <div
+            ref={elementRef}
             className={className}
             style={{
                 position: 'absolute',
-                left: state.x,
-                top: state.y,
-                transform: `rotate(${state.rotation}deg)`,
-                pointerEvents: isOwner ? 'auto' : 'none',
-                transition: isOwner ? 'none' : 'transform 0.1s linear, left 0.1s linear, top 0.1s linear', // CSS transition for extra smoothness
-                // Note: CSS transition might conflict with JS interpolation loop if not careful.
-                // If JS loop updates running at 60fps, CSS transition is moot or jerky.
-                // If JS loop updates at broadcaste rate, CSS handles in-between? 
-                // Best: JS loop drives the style directly at 60fps.
-                // Since useNetworkEntity causes re-renders on every JS loop tick (via setState),
-                // we get smooth updates.
+                left: initialPos.x,
+                top: initialPos.y,
+                transform: `rotate(${initialPos.rotation}deg)`,
+                pointerEvents: ownsEntity ? 'auto' : 'none',
                 ...style
             }}
         >
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useNetworkEntity } from '../hooks/useNetworkEntity';
 
 interface NetworkTransform3DProps {
@@ -12,6 +12,12 @@ interface NetworkTransform3DProps {
     [key: string]: any;
 }
 
+// The parts of a three.js Object3D we write to, without depending on three
+interface TransformTarget {
+    position: { set(x: number, y: number, z: number): void };
+    rotation: { set(x: number, y: number, z: number): void };
+}
+
 declare global {
     namespace JSX {
         interface IntrinsicElements {
@@ -40,15 +46,17 @@ export const NetworkTransform3D: React.FC<NetworkTransform3DProps> = ({
     initialPos = { x: 0, y: 0, z: 0, rx: 0, ry: 0, rz: 0 },
     position,
     rotation,
-    isOwner = false,
+    isOwner,
     children,
     ...groupProps
 }) => {
-    const [state, setNetworkState] = useNetworkEntity({
+    const groupRef = useRef<TransformTarget>(null);
+    const [, setNetworkState, { entity }] = useNetworkEntity({
         entityId,
         initialState: initialPos,
         isOwner,
-        broadcastRate: 50
+        broadcastRate: isOwner ? 50 : undefined, // 20Hz while we drive it; mounted passively, the entity keeps its own rate
+        render: false
     });
 
     useEffect(() => {
@@ -65,6 +73,24 @@ export const NetworkTransform3D: React.FC<NetworkTransform3DProps> = ({
         }
     }, [position, rotation, isOwner, setNetworkState]);
 
+    // Update the Object3D directly every frame instead of re-rendering the component
+    useEffect(() => {
+        if (!entity) return;
+
+        let animationFrameId: number;
+        const apply = () => {
+            const state = entity.getState();
+            const group = groupRef.current;
+            if (group) {
+                group.position.set(state.x, state.y, state.z);
+                group.rotation.set(state.rx, state.ry, state.rz);
+            }
+            animationFrameId = requestAnimationFrame(apply);
+        };
+        apply();
+        return () => cancelAnimationFrame(animationFrameId);
+    }, [entity]);
+
     // We return a group. If this is used outside R3F, it will fail or just render a div?
     // User asked for "stub for Three.js". 
     // Ideally this library separates view from logic.
@@ -75,8 +101,9 @@ export const NetworkTransform3D: React.FC<NetworkTransform3DProps> = ({
     // To be safe in a generic library, we might need to cast or just assume the user uses it right.
 
     return React.createElement('group', {
-        position: [state.x, state.y, state.z],
-        rotation: [state.rx, state.ry, state.rz],
+        ref: groupRef,
+        position: [initialPos.x, initialPos.y, initialPos.z],
+        rotation: [initialPos.rx, initialPos.ry, initialPos.rz],
         ...groupProps
     }, children);
 };
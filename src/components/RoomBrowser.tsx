@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+import { useRoom } from '../hooks/useRoom';
+import { useRoomList } from '../hooks/useRoomList';
+import { Room } from '../types';
+import { RoomFilter, RoomSort } from '../logic/roomFilter';
+
+interface RoomBrowserProps {
+    filter?: RoomFilter; // Fixed filter, combined with the toggles in the UI
+    sort?: RoomSort;
+    pageSize?: number;
+    onJoin?: (room: Room) => void;
+}
+
+/**
+ * A ready-made room browser: live room list with filters, sorting, paging and password prompts.
+ */
+export const RoomBrowser: React.FC<RoomBrowserProps> = ({ filter, sort, pageSize = 20, onJoin }) => {
+    const { isConnected, getRoom } = useGameSocket();
+    const { joinRoom, error: joinError } = useRoom();
+    const [freeSlotsOnly, setFreeSlotsOnly] = useState(false);
+    const [hidePrivate, setHidePrivate] = useState(false);
+    const [search, setSearch] = useState('');
+    const [sortBy, setSortBy] = useState<RoomSort['by']>(sort?.by ?? 'createdAt');
+    const [passwordFor, setPasswordFor] = useState<string | null>(null);
+    const [password, setPassword] = useState('');
+
+    const { rooms, loading, error, hasMore, loadMore, refresh } = useRoomList({
+        filter: {
+            ...filter,
+            ...(freeSlotsOnly && { hasFreeSlots: true }),
+            ...(hidePrivate && { excludePrivate: true }),
+            ...(search && { search }),
+        },
+        sort: { by: sortBy, order: sort?.order ?? 'desc' },
+        pageSize,
+    });
+
+    const join = async (room: Room) => {
+        if (room.hasPassword && passwordFor !== room.roomId) {
+            setPasswordFor(room.roomId);
+            setPassword('');
+            return;
+        }
+        if (await joinRoom(room.roomId, room.hasPassword ? { password } : undefined)) {
+            setPasswordFor(null);
+            onJoin?.(room);
+        }
+    };
+
+    if (!isConnected) return <div className="text-gray-500">Connect to browse rooms.</div>;
+
+    return (
+        <div className="flex flex-col border rounded bg-white shadow-sm">
+            <div className="p-2 border-b flex flex-wrap gap-2 items-center text-sm">
+                <input
+                    className="flex-1 border rounded px-2 py-1"
+                    value={search}
+                    onChange={e => setSearch(e.target.value)}
+                    placeholder="Search rooms..."
+                />
+                <select className="border rounded px-2 py-1" value={sortBy} onChange={e => setSortBy(e.target.value as RoomSort['by'])}>
+                    <option value="createdAt">Newest</option>
+                    <option value="members">Most players</option>
+                    <option value="freeSlots">Most free slots</option>
+                </select>
+                <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={freeSlotsOnly} onChange={e => setFreeSlotsOnly(e.target.checked)} />
+                    Free slots
+                </label>
+                <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={hidePrivate} onChange={e => setHidePrivate(e.target.checked)} />
+                    Hide private
+                </label>
+                <button className="px-2 py-1 border rounded" onClick={refresh}>Refresh</button>
+            </div>
+
+            {(error || joinError) && <div className="p-2 text-sm text-red-600">{(joinError ?? error)?.message}</div>}
+
+            <ul className="divide-y max-h-80 overflow-y-auto">
+                {rooms.map(room => {
+                    const joined = !!getRoom(room.roomId);
+                    const count = room.members?.length ?? 0;
+                    const full = room.maxMembers !== undefined && count >= room.maxMembers;
+                    return (
+                        <li key={room.roomId} className="p-2 flex items-center gap-2">
+                            <div className="flex-1">
+                                <div className="font-medium">
+                                    {room.roomId}
+                                    {room.hasPassword && <span className="ml-1" title="Password protected">🔒</span>}
+                                    {room.isPrivate && <span className="ml-1 text-xs text-gray-500">private</span>}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    {count}{room.maxMembers !== undefined ? ` / ${room.maxMembers}` : ''} players
+                                </div>
+                            </div>
+                            {passwordFor === room.roomId && (
+                                <input
+                                    type="password"
+                                    className="border rounded px-2 py-1 text-sm"
+                                    value={password}
+                                    onChange={e => setPassword(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && join(room)}
+                                    placeholder="Password"
+                                    autoFocus
+                                />
+                            )}
+                            <button
+                                className="bg-blue-600 text-white px-3 py-1 rounded disabled:opacity-50"
+                                disabled={joined || full}
+                                onClick={() => join(room)}
+                            >
+                                {joined ? 'Joined' : full ? 'Full' : 'Join'}
+                            </button>
+                        </li>
+                    );
+                })}
+                {!loading && rooms.length === 0 && <li className="p-2 text-sm text-gray-500">No rooms found.</li>}
+            </ul>
+
+            {(hasMore || loading) && (
+                <button className="p-2 border-t text-sm text-blue-600" disabled={loading} onClick={loadMore}>
+                    {loading ? 'Loading...' : 'Load more'}
+                </button>
+            )}
+        </div>
+    );
+};
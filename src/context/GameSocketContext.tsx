@@ -1,56 +1,183 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { SocketClient } from '../client/SocketClient';
 import { PeerClient } from '../client/PeerClient';
-import { RestApiClient } from '../client/RestApiClient';
-import { AuthData, Room, PresenceEvent, ConnectionStatus } from '../types';
+import { NetworkEntityRegistry } from '../client/NetworkEntityRegistry';
+import { MessageRouter } from '../client/MessageRouter';
+import { VoiceChat } from '../client/VoiceChat';
+import { AuthData, Room, PresenceEvent, ConnectionStatus, ConnectOptions, EventMap, DefaultEventMap, TransportKind, ResumedEvent, ModerationEvent, CreateRoomOptions, JoinRoomOptions, CustomEvent } from '../types';
 
-interface GameSocketContextType {
-    client: SocketClient;
+interface GameSocketContextType<E extends EventMap = DefaultEventMap> {
+    client: SocketClient<E>;
     isConnected: boolean;
+    isReconnecting: boolean;
     socketId?: string;
-    currentRoom: Room | null;
+    transport?: TransportKind;
+    currentRoom: Room | null; // The active room: the last one joined, or the one picked with setActiveRoom
+    joinedRooms: Room[];
+    getRoom: (roomId: string) => Room | null;
+    setActiveRoom: (roomId: string) => void;
     me: { userId: string } | null;
-    connect: (url: string, auth: AuthData) => void;
+    connect: (url: string, auth: AuthData, options?: ConnectOptions) => void;
     disconnect: () => void;
-    joinRoom: (roomId: string, peerId?: string) => Promise<{ ok: boolean, role: string }>;
-    createRoom: (roomId?: string) => Promise<Room>;
-    leaveRoom: () => Promise<boolean>;
+    joinRoom: (roomId: string, options?: string | JoinRoomOptions) => Promise<{ ok: boolean, role: string }>; // options: peerId, or { peerId, password }
+    createRoom: (options?: string | CreateRoomOptions) => Promise<Room>;
+    leaveRoom: (roomId?: string) => Promise<boolean>; // Defaults to the active room
     rooms: Room[];
     refreshRooms: () => Promise<void>;
 }
 
 const GameSocketContext = createContext<GameSocketContextType | undefined>(undefined);
 
+// Applies an admin action to our copy of the room
+const applyModeration = (room: Room, data: ModerationEvent): Room => {
+    const { userId } = data;
+    switch (data.action) {
+        case 'kick':
+            return { ...room, members: room.members.filter(m => m.userId !== userId) };
+        case 'ban':
+            return {
+                ...room,
+                members: room.members.filter(m => m.userId !== userId),
+                bannedUserIds: userId && !room.bannedUserIds.includes(userId) ? [...room.bannedUserIds, userId] : room.bannedUserIds,
+            };
+        case 'unban':
+            return { ...room, bannedUserIds: room.bannedUserIds.filter(id => id !== userId) };
+        case 'promote':
+        case 'demote': {
+            const isAdmin = data.action === 'promote';
+            const admins = room.admins.filter(id => id !== userId);
+            return {
+                ...room,
+                admins: isAdmin && userId ? [...admins, userId] : admins,
+                members: room.members.map(m => (m.userId === userId ? { ...m, isAdmin } : m)),
+            };
+        }
+        case 'update': {
+            const { password, isPrivate, maxMembers } = data.settings ?? {};
+            return {
+                ...room,
+                ...(password !== undefined && { password: password ?? undefined }),
+                ...(isPrivate !== undefined && { isPrivate }),
+                ...(maxMembers !== undefined && { maxMembers: maxMembers ?? undefined }),
+            };
+        }
+        default:
+            return room;
+    }
+};
+
 /**
  * Context Provider for Game Engine Socket.
- * Manages the singleton SocketClient, RestApiClient, and PeerClient.
+ * Manages the singleton SocketClient, RestApiClient, PeerClient, MessageRouter and VoiceChat.
  * Handles global connection state, room state tracking, and presence updates.
+ * A client can be in several rooms at once (e.g. lobby, match and team voice); each keeps its own members.
  */
 export const GameSocketProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [client] = useState(SocketClient.getInstance());
     const [peerClient] = useState(PeerClient.getInstance());
-    const [restClient] = useState(new RestApiClient('http://localhost:3000', '')); // Default URL
+    // Sends entity updates peer-to-peer when every member is connected
+    const [router] = useState(() => MessageRouter.getInstance());
+    const [voice] = useState(() => VoiceChat.getInstance());
+    const restClient = client.rest;
     const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({ connected: false });
-    const [currentRoom, setCurrentRoom] = useState<Room | null>(null);
+    const [isReconnecting, setIsReconnecting] = useState(false);
+    const [joined, setJoined] = useState<Record<string, Room>>({});
+    const [activeRoomId, setActiveRoomId] = useState<string | null>(null);
+    // Leaving the active room falls back to another joined room
+    const currentRoom = (activeRoomId && joined[activeRoomId]) || Object.values(joined)[0] || null;
     const [rooms, setRooms] = useState<Room[]>([]);
     const [me, setMe] = useState<{ userId: string } | null>(null);
 
+    // Entities need each room's members and admins for ownership decisions, the router and voice chat need their peers
+    const syncedRooms = useRef<Set<string>>(new Set());
+    useEffect(() => {
+        const registry = NetworkEntityRegistry.getInstance();
+        syncedRooms.current.forEach(roomId => {
+            if (joined[roomId]) return;
+            registry.setRoom(roomId, null);
+            router.setRoom(roomId, null);
+            voice.setRoom(roomId, null);
+        });
+        Object.values(joined).forEach(room => {
+            registry.setRoom(room.roomId, room);
+            router.setRoom(room.roomId, room);
+            voice.setRoom(room.roomId, room);
+        });
+        syncedRooms.current = new Set(Object.keys(joined));
+    }, [joined, router, voice]);
+
+    const setRoom = (roomId: string, room: Room | null) => {
+        setJoined(prev => {
+            const next = { ...prev };
+            if (room) next[roomId] = room;
+            else delete next[roomId];
+            return next;
+        });
+        if (!room) setActiveRoomId(prev => (prev === roomId ? null : prev));
+    };
+
+    // Tells a room's members our peer id once PeerJS is ready, so they can connect to us
+    const announcePeerId = (roomId: string) => {
+        peerClient.ready()
+            .then(peerId => {
+                if (!peerId || !client.getJoinedRooms().includes(roomId)) return;
+                return client.emitToRoom(roomId, 'peer:announce', { peerId });
+            })
+            .catch(err => console.warn('Peer id not announced:', err));
+    };
+
     useEffect(() => {
-        const handleConnect = (data: { connected: boolean; socketId: string }) => {
-            setConnectionStatus({ connected: true, socketId: data.socketId });
+        const handleConnect = (data: ConnectionStatus) => {
+            setConnectionStatus({ connected: true, socketId: data.socketId, transport: data.transport });
+            setIsReconnecting(false);
         };
 
+        const handleTransport = (transport: TransportKind | null) => {
+            setConnectionStatus(prev => ({ ...prev, transport: transport ?? undefined }));
+        };
+
+        // The room is kept through a disconnect: SocketClient rejoins it once the socket is back
         const handleDisconnect = () => {
             setConnectionStatus({ connected: false, socketId: undefined });
-            setCurrentRoom(null);
+        };
+
+        const handleReconnecting = () => {
+            setIsReconnecting(true);
+        };
+
+        const handleResumed = (data: ResumedEvent) => {
+            data.failed.forEach(roomId => setRoom(roomId, null));
+            // Rooms are rejoined with the options of the first join, which may predate our peer id
+            data.rooms.forEach(roomId => announcePeerId(roomId));
+
+            // Presence changes during the outage were missed, refetch the member lists
+            restClient.listRooms(client.getUserId() ?? undefined)
+                .then(list => setJoined(prev => {
+                    const next = { ...prev };
+                    list.forEach(room => {
+                        if (next[room.roomId]) next[room.roomId] = room;
+                    });
+                    return next;
+                }))
+                .catch(err => console.warn('Failed to refresh rooms after resume:', err));
+        };
+
+        const handleModeration = (data: ModerationEvent) => {
+            // Kicked or banned ourselves: the room is gone for us
+            if ((data.action === 'kick' || data.action === 'ban') && data.userId === client.getUserId()) {
+                setRoom(data.roomId, null);
+                return;
+            }
+            setJoined(rooms => (rooms[data.roomId] ? { ...rooms, [data.roomId]: applyModeration(rooms[data.roomId], data) } : rooms));
         };
 
         const handlePresence = (data: PresenceEvent) => {
             console.log('Presence update:', data);
 
-            // Update currentRoom members
-            setCurrentRoom(prev => {
-                if (!prev || prev.roomId !== data.roomId) return prev;
+            // Update the members of the room the event is about
+            setJoined(rooms => {
+                const prev = rooms[data.roomId];
+                if (!prev) return rooms;
 
                 const newMembers = [...(prev.members || [])];
                 if (data.event === 'join') {
@@ -60,7 +187,7 @@ export const GameSocketProvider: React.FC<{ children: ReactNode }> = ({ children
                             userId: data.userId,
                             socketId: '', // We don't know socketId from presence event usually, unless provided
                             isAdmin: data.isAdmin,
-                            joinedAt: Date.now(),
+                            joinedAt: data.ts ?? Date.now(), // Server time, so every client orders members the same way
                             peerId: data.peerId
                         });
                     }
@@ -69,64 +196,92 @@ export const GameSocketProvider: React.FC<{ children: ReactNode }> = ({ children
                     if (idx !== -1) newMembers.splice(idx, 1);
                 }
 
-                return { ...prev, members: newMembers };
+                return { ...rooms, [data.roomId]: { ...prev, members: newMembers } };
             });
 
             if (data.event === 'join' && data.peerId && data.peerId !== peerClient.myPeerId) {
-                peerClient.connectToPeer(data.peerId);
+                peerClient.connectToPeer(data.peerId, data.userId);
             }
         };
 
+        // A member who joined before PeerJS was ready tells us its peer id afterwards
+        const handlePeerAnnounce = (data: CustomEvent<{ peerId: string }>) => {
+            const peerId = data.payload?.peerId;
+            if (typeof peerId !== 'string' || data.from === client.getUserId()) return;
+            setJoined(rooms => {
+                const prev = rooms[data.roomId];
+                if (!prev) return rooms;
+                const members = prev.members.map(m => (m.userId === data.from ? { ...m, peerId } : m));
+                return { ...rooms, [data.roomId]: { ...prev, members } };
+            });
+            if (peerId !== peerClient.myPeerId) peerClient.connectToPeer(peerId, data.from);
+        };
+
         client.on('connect', handleConnect);
         client.on('disconnect', handleDisconnect);
+        client.on('transport', handleTransport);
+        client.on('reconnecting', handleReconnecting);
+        client.on('resumed', handleResumed);
         client.on('room:presence', handlePresence);
+        client.on('room:moderation', handleModeration);
+        client.on('peer:announce', handlePeerAnnounce);
 
         return () => {
             client.off('connect', handleConnect);
             client.off('disconnect', handleDisconnect);
+            client.off('transport', handleTransport);
+            client.off('reconnecting', handleReconnecting);
+            client.off('resumed', handleResumed);
             client.off('room:presence', handlePresence);
+            client.off('room:moderation', handleModeration);
+            client.off('peer:announce', handlePeerAnnounce);
         };
     }, [client, peerClient]); // Added peerClient to dependencies
 
-    const connect = (url: string, auth: AuthData) => {
+    const connect = (url: string, auth: AuthData, options?: ConnectOptions) => {
         setMe({ userId: auth.userId });
+        peerClient.setUserId(auth.userId);
 
-        // Update REST client config
-        restClient.updateConfig(url, auth.apiKey);
+        // Also configures client.rest, used for room lists and the REST fallback
+        client.connect(url, auth, options);
 
-        client.connect(url, auth);
+        // Started now so the peer id is usually ready by the first join
+        peerClient.disconnect();
+        peerClient.configure(options?.peer ?? {}, url);
+        // Same wire format (and schemas) over WebRTC as over the socket
+        peerClient.setSerializer(client.getSerializer());
+        peerClient.ready().catch(err => console.warn('Peer-to-peer unavailable:', err));
     };
 
     const disconnect = () => {
         client.disconnect();
+        peerClient.disconnect();
         setMe(null);
+        setJoined({});
+        setActiveRoomId(null);
+        setIsReconnecting(false);
     };
 
-    const joinRoom = async (roomId: string, peerId?: string) => {
+    const joinRoom = async (roomId: string, options: string | JoinRoomOptions = {}) => {
+        const { peerId, password } = typeof options === 'string' ? { peerId: options, password: undefined } : options;
         try {
-            // If peerId is not provided, try to initialize peer client?
-            // Or just pass what is given.
-            // The user spec says: Connect Peer, then send ID to socket.
-            // So let's try to get ID if not passed.
-            let myPeerId = peerId;
-            if (!myPeerId && peerClient) {
-                // Try to init? We need host/port configs.
-                // Let's assume defaults for now or pass config in connect().
-                // If we are already connected?
-                myPeerId = peerClient.myPeerId || undefined;
-            }
+            // Members connect to us with the peer id sent along with the join. PeerJS may still be starting
+            // (or unavailable): the join doesn't wait for it, and the id is announced once it is ready.
+            const myPeerId = peerId ?? peerClient.myPeerId ?? undefined;
 
-            const res = await client.joinRoom(roomId, myPeerId);
+            const res = await client.joinRoom(roomId, { peerId: myPeerId, password });
+            setActiveRoomId(roomId);
+            if (!myPeerId) announcePeerId(roomId);
 
             // Fetch full room details to get members
             try {
-                const roomList = await restClient.listRooms();
+                const roomList = await restClient.listRooms(client.getUserId() ?? undefined);
                 const room = roomList.find(r => r.roomId === roomId);
                 if (room) {
-                    setCurrentRoom(room);
+                    setRoom(roomId, room);
                 } else {
                     // Fallback if not found in list (maybe private? or delays)
-                    setCurrentRoom({
+                    setRoom(roomId, {
                         roomId,
                         createdAt: Date.now(),
                         createdBy: 'unknown',
@@ -138,7 +293,7 @@ export const GameSocketProvider: React.FC<{ children: ReactNode }> = ({ children
             } catch (err) {
                 console.warn('Failed to fetch room details via REST:', err);
                 // Fallback
-                setCurrentRoom({
+                setRoom(roomId, {
                     roomId,
                     createdAt: Date.now(),
                     createdBy: 'unknown',
@@ -153,30 +308,44 @@ export const GameSocketProvider: React.FC<{ children: ReactNode }> = ({ children
         }
     };
 
-    const createRoom = async (roomId?: string) => {
+    const createRoom = async (options?: string | CreateRoomOptions) => {
         try {
-            const room = await client.createRoom(roomId);
-            setCurrentRoom(room); // If we auto-join created rooms? Spec doesn't say.
+            const room = await client.createRoom(options);
+            // Servers that don't make the creator a member: join like anyone else
+            if (!client.getJoinedRooms().includes(room.roomId)) {
+                const password = typeof options === 'object' ? options.password : undefined;
+                await joinRoom(room.roomId, { password });
+                return room;
+            }
+            setRoom(room.roomId, room);
+            setActiveRoomId(room.roomId);
+            announcePeerId(room.roomId);
             return room;
         } catch (e) {
             throw e;
         }
     };
 
-    const leaveRoom = async () => {
-        if (!currentRoom) return false;
+    const leaveRoom = async (roomId: string | undefined = currentRoom?.roomId) => {
+        if (!roomId || !joined[roomId]) return false;
         try {
-            await client.leaveRoom(currentRoom.roomId);
-            setCurrentRoom(null);
+            await client.leaveRoom(roomId);
+            setRoom(roomId, null);
             return true;
         } catch (e) {
             throw e;
         }
     };
 
+    const getRoom = (roomId: string) => joined[roomId] ?? null;
+
+    const setActiveRoom = (roomId: string) => {
+        if (joined[roomId]) setActiveRoomId(roomId);
+    };
+
     const refreshRooms = async () => {
         try {
-            const list = await restClient.listRooms();
+            const list = await restClient.listRooms(client.getUserId() ?? undefined);
             setRooms(list);
         } catch (e) {
             console.error(e);
@@ -188,8 +357,13 @@ export const GameSocketProvider: React.FC<{ children: ReactNode }> = ({ children
             value={{
                 client,
                 isConnected: connectionStatus.connected,
+                isReconnecting,
                 socketId: connectionStatus.socketId,
+                transport: connectionStatus.transport,
                 currentRoom,
+                joinedRooms: Object.values(joined),
+                getRoom,
+                setActiveRoom,
                 me,
                 connect,
                 disconnect,
@@ -208,13 +382,14 @@ export const GameSocketProvider: React.FC<{ children: ReactNode }> = ({ children
 
 /**
  * Hook to access the GameSocket context.
+ * Pass your event map (`useGameSocket<MyEvents>()`) to get a typed `client`.
  * @returns {GameSocketContextType} The context object containing client, connection status, and room methods.
  * @throws Will throw an error if used outside of a GameSocketProvider.
  */
-export const useGameSocket = () => {
+export const useGameSocket = <E extends EventMap = DefaultEventMap>() => {
     const context = useContext(GameSocketContext);
     if (context === undefined) {
         throw new Error('useGameSocket must be used within a GameSocketProvider');
     }
-    return context;
+    return context as unknown as GameSocketContextType<E>;
 };
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+import { HostedMatch, HostedMatchOptions, HostStatePayload } from '../client/HostedMatch';
+
+interface UseHostedMatchOptions<S, I> extends Omit<HostedMatchOptions<S, I>, 'resume'> {
+    roomId?: string; // Defaults to the active room
+    render?: boolean; // If false, the hook doesn't re-render on every tick; read `match.getState()` instead
+}
+
+/**
+ * Hook running a host-authoritative match over peer-to-peer connections.
+ * The oldest member of the room hosts: it runs `step` and broadcasts the state; everyone else sends inputs.
+ * If the host leaves, the next oldest member takes over from the latest state.
+ *
+ * @param options.initialState State before the host's first tick.
+ * @param options.step `(state, inputs, dt) => state`, run by the host every tick.
+ * @param options.tickRate ms between host ticks. Default 50.
+ * @param options.preferAdmins Elect the oldest admin instead of the oldest member.
+ * @param options.roomId Room the match is played in. Defaults to the active room.
+ * @param options.render If false, the component is not re-rendered on every tick. Default true.
+ * @returns `state`, `tick`, `hostId`, `isHost`, `sendInput(input)`, `setState` (host only) and the underlying `match`.
+ */
+export const useHostedMatch = <S, I = any>({
+    initialState,
+    step,
+    tickRate,
+    preferAdmins,
+    maxPendingInputs,
+    roomId: roomIdOption,
+    render = true,
+}: UseHostedMatchOptions<S, I>) => {
+    const { client, currentRoom, getRoom } = useGameSocket();
+    const roomId = roomIdOption ?? currentRoom?.roomId;
+    const room = roomId ? getRoom(roomId) : null;
+    const [match, setMatch] = useState<HostedMatch<S, I> | null>(null);
+    const [state, setState] = useState<S>(initialState);
+    const [tick, setTick] = useState(0);
+    const [hostId, setHostId] = useState<string | null>(null);
+
+    // The latest step runs on the next tick without restarting the match
+    const stepRef = useRef(step);
+    stepRef.current = step;
+
+    // Read on every tick, so toggling `render` doesn't re-create the match
+    const renderRef = useRef(render);
+    renderRef.current = render;
+
+    // A match re-created in the same room (e.g. a StrictMode remount) carries on where the last one stopped
+    const resumeRef = useRef<{ roomId: string; snapshot: HostStatePayload<S> } | null>(null);
+
+    useEffect(() => {
+        if (!roomId) return;
+        const instance = new HostedMatch<S, I>(roomId, {
+            initialState,
+            step: (...args) => stepRef.current(...args),
+            tickRate,
+            preferAdmins,
+            maxPendingInputs,
+            resume: resumeRef.current?.roomId === roomId ? resumeRef.current.snapshot : undefined,
+        }, client);
+        setMatch(instance);
+        setState(instance.getState());
+
+        const offState = instance.onState((next, nextTick) => {
+            if (!renderRef.current) return;
+            setState(next);
+            setTick(nextTick);
+        });
+        const offHost = instance.onHostChange(next => setHostId(next));
+
+        return () => {
+            offState();
+            offHost();
+            instance.stop();
+            resumeRef.current = { roomId, snapshot: instance.getSnapshot() };
+            setMatch(null);
+            setHostId(null);
+        };
+        // initialState is only used when the match is created
+    }, [client, roomId]);
+
+    // Catch up on the ticks skipped while rendering was off
+    useEffect(() => {
+        if (!match || !render) return;
+        setState(match.getState());
+        setTick(match.getTick());
+    }, [match, render]);
+
+    useEffect(() => {
+        match?.configure({ tickRate, preferAdmins, maxPendingInputs });
+    }, [match, tickRate, preferAdmins, maxPendingInputs]);
+
+    // Elect from the current members, then start (the first call has the members already)
+    useEffect(() => {
+        if (!match) return;
+        match.setRoom(room);
+        match.start();
+    }, [match, room]);
+
+    const sendInput = useCallback((input: I) => match?.sendInput(input), [match]);
+    const setMatchState = useCallback((next: S | ((prev: S) => S)) => match?.setState(next), [match]);
+
+    return {
+        state,
+        tick,
+        hostId,
+        isHost: hostId !== null && hostId === client.getUserId(),
+        sendInput,
+        setState: setMatchState,
+        match,
+    };
+};
@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+import { GameSocketError, toGameSocketError } from '../client/errors';
+import { MatchCriteria, MatchFound, MatchReady, MatchCancelled, QueueStatus } from '../types';
+
+export type MatchmakingStatus = 'idle' | 'searching' | 'found' | 'accepted' | 'joining' | 'joined';
+
+interface UseMatchmakingOptions {
+    autoJoin?: boolean; // Join the match room as soon as it is ready. Default true.
+    autoAccept?: boolean; // Accept ready checks without asking the player. Default false.
+    onMatchJoined?: (match: MatchReady) => void;
+}
+
+/**
+ * Hook driving the matchmaking queue: enter with criteria, follow position and estimated wait,
+ * answer the ready check, and end up in the match room.
+ *
+ * @param options.autoJoin Join the assigned room when the match is ready. Default true.
+ * @param options.autoAccept Accept ready checks automatically. Default false.
+ * @param options.onMatchJoined Called once the match room has been joined.
+ * @returns `status`, `queue` (position / estimatedWait), `match`, `cancelReason`, `error`,
+ * and `findMatch(criteria)`, `cancel()`, `accept()`, `decline()`.
+ */
+export const useMatchmaking = ({ autoJoin = true, autoAccept = false, onMatchJoined }: UseMatchmakingOptions = {}) => {
+    const { client, joinRoom } = useGameSocket();
+    const [status, setStatus] = useState<MatchmakingStatus>('idle');
+    const [queue, setQueue] = useState<QueueStatus | null>(null);
+    const [match, setMatch] = useState<MatchFound | null>(null);
+    const [cancelReason, setCancelReason] = useState<MatchCancelled['reason'] | null>(null);
+    const [error, setError] = useState<GameSocketError | null>(null);
+
+    // Latest options for the event handlers, without re-subscribing on every render
+    const options = useRef({ autoJoin, autoAccept, onMatchJoined, joinRoom });
+    options.current = { autoJoin, autoAccept, onMatchJoined, joinRoom };
+
+    const fail = (err: unknown, fallback: string) => {
+        setError(toGameSocketError(err, fallback));
+    };
+
+    const findMatch = useCallback(async (criteria: MatchCriteria) => {
+        setError(null);
+        setCancelReason(null);
+        setMatch(null);
+        try {
+            setQueue(await client.joinQueue(criteria));
+            setStatus('searching');
+            return true;
+        } catch (err) {
+            fail(err, 'Failed to join the queue');
+            return false;
+        }
+    }, [client]);
+
+    const cancel = useCallback(async () => {
+        try {
+            await client.leaveQueue();
+            setStatus('idle');
+            setQueue(null);
+            setMatch(null);
+            setCancelReason('cancelled');
+        } catch (err) {
+            fail(err, 'Failed to leave the queue');
+        }
+    }, [client]);
+
+    const accept = useCallback(async (matchId?: string) => {
+        const id = matchId ?? match?.matchId;
+        if (!id) return;
+        try {
+            await client.acceptMatch(id);
+            setStatus('accepted');
+        } catch (err) {
+            fail(err, 'Failed to accept the match');
+        }
+    }, [client, match]);
+
+    const decline = useCallback(async () => {
+        if (!match) return;
+        try {
+            await client.declineMatch(match.matchId);
+        } catch (err) {
+            fail(err, 'Failed to decline the match');
+        }
+        setStatus('idle');
+        setQueue(null);
+        setMatch(null);
+        setCancelReason('declined');
+    }, [client, match]);
+
+    useEffect(() => {
+        const enterMatch = async (ready: MatchReady) => {
+            if (!options.current.autoJoin) {
+                setStatus('accepted');
+                return;
+            }
+            setStatus('joining');
+            try {
+                await options.current.joinRoom(ready.roomId, { password: ready.password });
+                setStatus('joined');
+                options.current.onMatchJoined?.(ready);
+            } catch (err) {
+                setStatus('idle');
+                fail(err, 'Failed to join the match room');
+            }
+        };
+
+        const handleStatus = (data: QueueStatus) => setQueue(data);
+
+        const handleFound = (data: MatchFound) => {
+            setMatch(data);
+            setStatus('found');
+            if (!data.requiresAccept) {
+                enterMatch({ matchId: data.matchId, roomId: data.roomId, password: data.password });
+            } else if (options.current.autoAccept) {
+                client.acceptMatch(data.matchId)
+                    .then(() => setStatus('accepted'))
+                    .catch(err => fail(err, 'Failed to accept the match'));
+            }
+        };
+
+        const handleReady = (data: MatchReady) => {
+            setQueue(null);
+            enterMatch(data);
+        };
+
+        const handleCancelled = (data: MatchCancelled) => {
+            setMatch(null);
+            setCancelReason(data.reason);
+            // Someone else declined or timed out: we're back to searching
+            setStatus(data.requeued ? 'searching' : 'idle');
+            if (!data.requeued) setQueue(null);
+        };
+
+        client.on('match:status', handleStatus);
+        client.on('match:found', handleFound);
+        client.on('match:ready', handleReady);
+        client.on('match:cancelled', handleCancelled);
+
+        return () => {
+            client.off('match:status', handleStatus);
+            client.off('match:found', handleFound);
+            client.off('match:ready', handleReady);
+            client.off('match:cancelled', handleCancelled);
+        };
+    }, [client]);
+
+    return { status, queue, match, cancelReason, error, findMatch, cancel, accept, decline };
+};
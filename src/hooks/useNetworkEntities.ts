@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { usePinnedRoom } from './usePinnedRoom';
+import { NetworkEntityRegistry, SpawnOptions } from '../client/NetworkEntityRegistry';
+import { NetworkEntity } from '../client/NetworkEntity';
+
+/**
+ * Hook listing the live spawned entities, optionally filtered by type.
+ * Render each one with `useNetworkEntity({ entityId })` (or a NetworkTransform component) to follow its state.
+ *
+ * @param type Only list entities of this type.
+ * @param roomId Only list entities of this room, and spawn there. Defaults to every room for listing, and for spawning
+ * to the room that was active when the hook mounted (joining another room later doesn't move it).
+ * @returns `entities`, plus `spawnEntity` / `despawnEntity` bound to the room (`despawnEntity` takes the entity's room as second argument otherwise).
+ */
+export const useNetworkEntities = <T extends Record<string, any> = Record<string, any>>(type?: string, roomId?: string) => {
+    const spawnRoom = usePinnedRoom(roomId);
+    const [registry] = useState(() => NetworkEntityRegistry.getInstance());
+    const [entities, setEntities] = useState<NetworkEntity<T>[]>(() => registry.getEntities(type, roomId));
+
+    useEffect(() => {
+        const refresh = () => setEntities(registry.getEntities(type, roomId));
+        refresh();
+        return registry.subscribe(refresh);
+    }, [registry, type, roomId]);
+
+    const spawnEntity = useCallback((entityType: string, initialState: T, options: Partial<SpawnOptions<T>> = {}) => {
+        if (!spawnRoom) throw new Error('Join a room before spawning entities');
+        return registry.spawnEntity<T>(entityType, initialState, { roomId: spawnRoom, ...options });
+    }, [registry, spawnRoom]);
+
+    const despawnEntity = useCallback((entityId: string, entityRoom = spawnRoom) => {
+        return entityRoom ? registry.despawnEntity(entityRoom, entityId) : false;
+    }, [registry, spawnRoom]);
+
+    return { entities, spawnEntity, despawnEntity };
+};
@@ -1,152 +1,182 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { useGameSocket } from '../context/GameSocketContext';
-import { CustomEvent } from '../types';
-import { interpolateState } from '../logic/interpolation';
+import { useState, useEffect, useCallback } from 'react';
+import { usePinnedRoom } from './usePinnedRoom';
+import { NetworkEntityRegistry } from '../client/NetworkEntityRegistry';
+import { NetworkEntity, NetworkEntityOptions } from '../client/NetworkEntity';
+import { StateError } from '../logic/prediction';
 
-interface UseNetworkEntityOptions<T> {
+interface UseNetworkEntityOptions<T, I> extends NetworkEntityOptions<T, I> {
     entityId: string;
-    initialState: T;
-    isOwner?: boolean; // If true, we broadcast updates. If false, we listen.
-    broadcastRate?: number; // ms, default 100ms (10 ticks/sec)
-    enableInterpolation?: boolean;
+    render?: boolean; // If false, the hook doesn't re-render on state changes; read `controls.entity` instead
 }
 
 /**
  * Hook to synchronize an entity's state across the network.
+ * Thin binding over the `NetworkEntityRegistry`: the entity lives outside React and can be read by game loops too.
  * 
  * @param options Configuration options
  * @param options.entityId Unique identifier for this entity.
  * @param options.initialState Initial state object.
- * @param options.isOwner If true, this client broadcasts updates for this entity. If false, it receives updates.
+ * @param options.roomId Room the entity lives in. Defaults to the room that was active when the hook mounted; joining another room later doesn't move the entity.
+ * @param options.isOwner If true, this client claims the entity and broadcasts its updates; false releases it.
+ * Leave it unset (like every other option) to keep what the entity already has, e.g. on spawned entities.
+ * @param options.allowTransfer Whether (or for whom) we hand the entity over when another client requests it. Default true.
  * @param options.broadcastRate Interval in ms to broadcast updates (if isOwner). Default 100ms.
  * @param options.enableInterpolation If true, remote updates are interpolated for smooth movement. Default true.
- * @returns A tuple [state, setNetworkState]. `setNetworkState` works like standard React setState.
+ * @param options.interpolationDelay How far in the past (ms) remote state is rendered. Default 2x broadcastRate.
+ * @param options.maxExtrapolation How long (ms) to keep extrapolating when updates stop arriving. Default 200ms.
+ * @param options.authoritative If true, the owner sends sequenced inputs (`entity:input`) and reconciles against `entity:state` from the server.
+ * @param options.step Deterministic function applying one input to a state. Used to predict and replay inputs.
+ * @param options.deltaCompression If true, updates only carry fields changed since the last acknowledged state. Default true.
+ * @param options.keyframeInterval Interval in ms between full-state keyframes, so late joiners can resync. Default 2000ms.
+ * @param options.delivery 'reliable' (ordered, acknowledged) or 'unreliable' (latest state wins, late packets dropped; suits positions). Default 'reliable'.
+ * @param options.schema Name of the binary schema its updates are encoded with, when the `'binary'` serializer is used.
+ * @param options.ownerLeavePolicy What happens when the owner leaves the room: 'despawn', 'freeze', 'handoff-oldest' or 'handoff-admin'. Default 'freeze'.
+ * @param options.onOwnerLeave / onHandoff / onFreeze / onDespawn Lifecycle callbacks fired as the policy is applied.
+ * @param options.render If false, the component is not re-rendered every frame; use `controls.entity.getState()` to read the state imperatively. Default true.
+ * @returns A tuple [state, setNetworkState, controls]. `setNetworkState` works like standard React setState.
+ * `controls.sendInput` predicts and sends an input; `controls.reconciliationError` is the last correction applied by the server;
+ * `controls.entity` is the underlying NetworkEntity (null until registered).
+ * `controls.owner` / `controls.isOwner` report who currently owns the entity; `requestOwnership`, `releaseOwnership`
+ * and `transferOwnership` negotiate it (admins of the room can force a transfer).
  */
-export const useNetworkEntity = <T extends Record<string, any>>({
+export const useNetworkEntity = <T extends Record<string, any>, I = any>({
     entityId,
     initialState,
-    isOwner = false,
-    broadcastRate = 100, // 10Hz
-    enableInterpolation = true,
-}: UseNetworkEntityOptions<T>) => {
-    const { client, currentRoom, isConnected } = useGameSocket();
+    // Left undefined so hooks mounting a spawned entity don't override its settings;
+    // the entity's own defaults apply otherwise
+    isOwner,
+    broadcastRate,
+    enableInterpolation,
+    interpolationDelay,
+    maxExtrapolation,
+    authoritative,
+    step,
+    deltaCompression,
+    keyframeInterval,
+    delivery,
+    schema,
+    allowTransfer,
+    ownerLeavePolicy,
+    onOwnerLeave,
+    onHandoff,
+    onFreeze,
+    onDespawn,
+    render = true,
+    roomId: roomIdOption,
+}: UseNetworkEntityOptions<T, I>) => {
+    const [registry] = useState(() => NetworkEntityRegistry.getInstance());
+    const [entity, setEntity] = useState<NetworkEntity<T, I> | null>(null);
     const [state, setState] = useState<T>(initialState);
+    const [reconciliationError, setReconciliationError] = useState<StateError<T>>({});
+    const [owner, setOwner] = useState<string | null>(null);
+    const [ownsEntity, setOwnsEntity] = useState(isOwner ?? false);
+    const roomId = usePinnedRoom(roomIdOption) ?? '';
 
-    // Use refs for the "latest" known state to interpolate towards
-    const targetStateRef = useRef<T>(initialState);
-    const lastStateRef = useRef<T>(initialState);
-    const lastUpdateTsRef = useRef<number>(Date.now());
-
-    // Ref to track if we have pending updates to send
-    const pendingUpdateRef = useRef<T | null>(null);
-
-    // Buffer for interpolation
-    // Simplification: We just interp from current->target over time? 
-    // Or improved: Store snapshots. 
-    // Let's keep it simple: "Snap to latest" or "Lerp to latest"
-
+    useEffect(() => {
+        // An entity belongs to one room: a new room means another entity
+        const registered = registry.register<T, I>(entityId, { initialState, roomId });
+        setEntity(registered);
+        return () => {
+            registry.release(roomId, entityId);
+            setEntity(null);
+        };
+        // initialState only matters the first time the entity is registered
+    }, [registry, entityId, roomId]);
 
     useEffect(() => {
-        if (!client || !currentRoom) return;
-
-        const onEntityUpdate = (data: CustomEvent<{ entityId: string; state: T }>) => {
-            if (data.event === 'entity:update' && data.payload.entityId === entityId) {
-                if (!isOwner) {
-                    // Received update from network
-                    if (enableInterpolation) {
-                        lastStateRef.current = state; // Current visual state
-                        targetStateRef.current = data.payload.state;
-                        lastUpdateTsRef.current = Date.now();
-                        // We'll let the animation loop handle the setting
-                    } else {
-                        setState(data.payload.state);
-                    }
-                }
-            }
+        const options: Partial<NetworkEntityOptions<T, I>> = {
+            isOwner,
+            broadcastRate,
+            enableInterpolation,
+            interpolationDelay,
+            maxExtrapolation,
+            authoritative,
+            step,
+            deltaCompression,
+            keyframeInterval,
+            delivery,
+            schema,
+            allowTransfer,
+            ownerLeavePolicy,
+            onOwnerLeave,
+            onHandoff,
+            onFreeze,
+            onDespawn,
         };
+        // Only what the caller set, so the entity keeps the rest (e.g. the options it was spawned with)
+        registry.configure<T, I>(roomId, entityId, Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)));
+    }, [registry, entity, entityId, roomId, isOwner, broadcastRate, enableInterpolation, interpolationDelay, maxExtrapolation, authoritative, step, deltaCompression, keyframeInterval, delivery, schema, allowTransfer, ownerLeavePolicy, onOwnerLeave, onHandoff, onFreeze, onDespawn]);
 
-        client.on('entity:update', onEntityUpdate);
-        return () => {
-            client.off('entity:update', onEntityUpdate);
+    useEffect(() => {
+        if (!entity) return;
+        const sync = () => {
+            setOwner(entity.owner);
+            setOwnsEntity(entity.isOwner);
         };
-    }, [client, currentRoom, entityId, isOwner, state, enableInterpolation]);
+        sync();
+        return entity.onOwnerChange(sync);
+    }, [entity]);
 
-    // Broadcasting loop
+    // Mirror the entity into React state
     useEffect(() => {
-        if (!isOwner || !isConnected || !currentRoom) return;
-
-        const interval = setInterval(() => {
-            if (pendingUpdateRef.current) {
-                client.emitToRoom(currentRoom.roomId, 'entity:update', {
-                    entityId,
-                    state: pendingUpdateRef.current
-                });
-                // pendingUpdateRef.current = null; // Should we clear? 
-                // If we clear, we stop sending if no change. 
-                // But sometimes heartbeats are good.
-                // Let's clear to save bandwidth if static.
-                pendingUpdateRef.current = null;
-            }
-        }, broadcastRate);
+        if (!entity || !render) return;
 
-        return () => clearInterval(interval);
-    }, [isOwner, isConnected, currentRoom, entityId, broadcastRate, client]);
+        setState(entity.getState());
+        const unsubscribe = entity.onChange(next => {
+            setState(next);
+            setReconciliationError(entity.reconciliationError);
+        });
 
-    // Interpolation Loop
-    useEffect(() => {
-        if (isOwner || !enableInterpolation) return;
+        // Remote entities are interpolated every frame
+        if (ownsEntity || enableInterpolation === false) return unsubscribe;
 
         let animationFrameId: number;
-
+        let lastRendered: T | null = null;
         const animate = () => {
-            const now = Date.now();
-            const timeSinceUpdate = now - lastUpdateTsRef.current;
-            // Assume broadcastRate is the interval between updates, so we interp over that time
-            // We add a buffer factor (e.g. 1.5x) to smooth out jitter
-            const buffer = broadcastRate * 1.5;
-            let t = timeSinceUpdate / buffer;
-            if (t > 1) t = 1;
-
-            // Ideally we lerp from lastRenderedState to targetState
-            // But here we'll just use the state from setState as "current" which might be updated by React
-            // This hooks approach for animation is tricky due to closures.
-            // A ref-based approach for 'currentState' would be better for high-freq updates.
-
-            // For simplicity in this `useState` version:
-            // Actually, we need to know the state "visually" where it was when we started interpolating.
-
-            // Let's simplify: Direct lerp is complex in general React state.
-            // We'll calculate the new state and set it.
-
-            // If t < 1, we Interpolate
-            if (t < 1) {
-                const newState = interpolateState(lastStateRef.current, targetStateRef.current, t);
-                setState(newState);
-                animationFrameId = requestAnimationFrame(animate);
-            } else {
-                // We arrived (or overshoot protection)
-                setState(targetStateRef.current);
-                // check again next frame if new target arrives
-                animationFrameId = requestAnimationFrame(animate);
+            const next = entity.getState();
+            // Skip re-rendering when the buffer hands back the same snapshot
+            if (next !== lastRendered) {
+                lastRendered = next;
+                setState(next);
             }
+            animationFrameId = requestAnimationFrame(animate);
         };
-
         animationFrameId = requestAnimationFrame(animate);
-        return () => cancelAnimationFrame(animationFrameId);
-    }, [isOwner, enableInterpolation, broadcastRate]);
-    // Note: Dependencies for the interpolation loop are tricky. 
-    // Strictly, `targetStateRef` changes don't trigger re-run, which is good.
-    // But we need the loop to keep running.
 
-    const setNetworkState = useCallback((newState: T | ((prev: T) => T)) => {
-        setState((prev) => {
-            const resolved = typeof newState === 'function' ? (newState as any)(prev) : newState;
-            if (isOwner) {
-                pendingUpdateRef.current = resolved;
-            }
-            return resolved;
-        });
-    }, [isOwner]);
+        return () => {
+            unsubscribe();
+            cancelAnimationFrame(animationFrameId);
+        };
+    }, [entity, render, ownsEntity, enableInterpolation]);
 
-    return [state, setNetworkState] as const;
+    const setNetworkState = useCallback((newState: T | ((prev: T) => T)) => {
+        registry.setState<T>(roomId, entityId, newState);
+    }, [registry, roomId, entityId]);
+
+    const sendInput = useCallback((input: I) => {
+        registry.get<T, I>(roomId, entityId)?.sendInput(input);
+    }, [registry, roomId, entityId]);
+
+    const requestOwnership = useCallback(() => {
+        return registry.get<T, I>(roomId, entityId)?.requestOwnership() ?? Promise.resolve(false);
+    }, [registry, roomId, entityId]);
+
+    const releaseOwnership = useCallback(() => {
+        registry.get<T, I>(roomId, entityId)?.releaseOwnership();
+    }, [registry, roomId, entityId]);
+
+    const transferOwnership = useCallback((userId: string) => {
+        return registry.get<T, I>(roomId, entityId)?.transferOwnership(userId) ?? false;
+    }, [registry, roomId, entityId]);
+
+    return [state, setNetworkState, {
+        sendInput,
+        reconciliationError,
+        entity,
+        owner,
+        isOwner: ownsEntity,
+        requestOwnership,
+        releaseOwnership,
+        transferOwnership
+    }] as const;
 };
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+import { PeerClient } from '../client/PeerClient';
+import { PeerInfo, PeerStatus } from '../types';
+
+/**
+ * Hook following the WebRTC side of the connection: our link to the PeerServer and each peer's data connection.
+ *
+ * @param roomId Only list the members of this room. Defaults to every peer.
+ * @returns `status` ('idle' | 'connecting' | 'open' | 'disconnected' | 'error'), `myPeerId`,
+ * and `peers`: one `PeerInfo` (peerId, userId, state, iceState, inCall) per connection.
+ */
+export const usePeers = (roomId?: string) => {
+    const { getRoom } = useGameSocket();
+    const [peerClient] = useState(() => PeerClient.getInstance());
+    const [status, setStatus] = useState<PeerStatus>(() => peerClient.getStatus());
+    const [myPeerId, setMyPeerId] = useState<string | null>(peerClient.myPeerId);
+    const [peers, setPeers] = useState<PeerInfo[]>(() => peerClient.getPeers());
+
+    useEffect(() => {
+        const handleStatus = (next: PeerStatus) => {
+            setStatus(next);
+            setMyPeerId(peerClient.myPeerId);
+        };
+        const refresh = () => setPeers(peerClient.getPeers());
+
+        handleStatus(peerClient.getStatus());
+        refresh();
+        peerClient.on('status', handleStatus);
+        peerClient.on('peer:state', refresh);
+        peerClient.on('peer:close', refresh);
+
+        return () => {
+            peerClient.off('status', handleStatus);
+            peerClient.off('peer:state', refresh);
+            peerClient.off('peer:close', refresh);
+        };
+    }, [peerClient]);
+
+    const room = roomId ? getRoom(roomId) : null;
+    const visible = roomId
+        ? peers.filter(p => room?.members.some(m => m.peerId === p.peerId || (p.userId !== null && m.userId === p.userId)))
+        : peers;
+
+    return { status, myPeerId, peers: visible };
+};
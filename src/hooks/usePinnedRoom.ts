@@ -0,0 +1,16 @@
+import { useRef } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+
+/**
+ * The room a hook works in: `roomId` when given, otherwise the active room at the time the hook first saw one.
+ * Joining another room later doesn't move it; leaving the pinned room lets it follow the active room again.
+ */
+export const usePinnedRoom = (roomId?: string): string | undefined => {
+    const { currentRoom, getRoom } = useGameSocket();
+    const pinned = useRef<string | null>(null);
+
+    if (pinned.current && !getRoom(pinned.current)) pinned.current = null;
+    if (!pinned.current) pinned.current = currentRoom?.roomId ?? null;
+
+    return roomId ?? pinned.current ?? undefined;
+};
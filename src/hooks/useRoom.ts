@@ -1,35 +1,45 @@
 import { useState } from 'react';
 import { useGameSocket } from '../context/GameSocketContext';
+import { GameSocketError, toGameSocketError } from '../client/errors';
+import { RoomSettings, CreateRoomOptions, JoinRoomOptions } from '../types';
 
 /**
  * Helper hook for Room management.
  * Provides methods to join, create, and leave rooms, as well as the current room state and list of available rooms.
+ * Pass a `roomId` to scope the hook to that room: `currentRoom` is then that room (null until joined),
+ * and `joinRoom()` / `leaveRoom()` default to it. Several scoped hooks can be used side by side.
+ * Admins of the room also get moderation actions (kick, ban, promote, settings...); they resolve to false and set `error` on failure.
+ * `error` is a GameSocketError: check `error.code` (e.g. 'room-full', 'banned', 'timeout') to tell failures apart.
  * @returns Object with room management functions and state.
  */
-export const useRoom = () => {
-    const { joinRoom, createRoom, leaveRoom, currentRoom, rooms, refreshRooms } = useGameSocket();
+export const useRoom = (roomId?: string) => {
+    const { client, me, joinRoom, createRoom, leaveRoom, currentRoom: activeRoom, getRoom, joinedRooms, rooms, refreshRooms } = useGameSocket();
+    const currentRoom = roomId ? getRoom(roomId) : activeRoom;
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<GameSocketError | null>(null);
 
-    const handleJoin = async (roomId: string, peerId?: string) => {
+    const handleJoin = async (targetRoomId: string | undefined = roomId, options?: string | JoinRoomOptions) => {
+        if (!targetRoomId) return false;
         setLoading(true);
         setError(null);
         try {
-            await joinRoom(roomId, peerId);
-        } catch (err: any) {
-            setError(err.message || 'Failed to join room');
+            await joinRoom(targetRoomId, options);
+            return true;
+        } catch (err) {
+            setError(toGameSocketError(err, 'Failed to join room'));
+            return false;
         } finally {
             setLoading(false);
         }
     };
 
-    const handleCreate = async (roomId?: string) => {
+    const handleCreate = async (options?: string | CreateRoomOptions) => {
         setLoading(true);
         setError(null);
         try {
-            await createRoom(roomId);
-        } catch (err: any) {
-            setError(err.message || 'Failed to create room');
+            await createRoom(options);
+        } catch (err) {
+            setError(toGameSocketError(err, 'Failed to create room'));
         } finally {
             setLoading(false);
         }
@@ -38,22 +48,46 @@ export const useRoom = () => {
     const handleLeave = async () => {
         setLoading(true);
         try {
-            await leaveRoom();
-        } catch (err: any) {
-            setError(err.message || 'Failed to leave room');
+            await leaveRoom(roomId);
+        } catch (err) {
+            setError(toGameSocketError(err, 'Failed to leave room'));
         } finally {
             setLoading(false);
         }
     };
 
+    const moderate = async (action: (roomId: string) => Promise<boolean>) => {
+        if (!currentRoom) return false;
+        setError(null);
+        try {
+            return await action(currentRoom.roomId);
+        } catch (err) {
+            setError(toGameSocketError(err, 'Moderation failed'));
+            return false;
+        }
+    };
+
     return {
         joinRoom: handleJoin,
         createRoom: handleCreate,
         leaveRoom: handleLeave,
         currentRoom,
+        members: currentRoom?.members ?? [],
+        isJoined: !!currentRoom,
+        joinedRooms,
         rooms,
         refreshRooms,
         loading,
-        error
+        error,
+        isAdmin: !!me && !!currentRoom?.admins.includes(me.userId),
+        kick: (userId: string, reason?: string) => moderate(id => client.kickMember(id, userId, reason)),
+        ban: (userId: string, reason?: string) => moderate(id => client.banMember(id, userId, reason)),
+        unban: (userId: string) => moderate(id => client.unbanMember(id, userId)),
+        promote: (userId: string) => moderate(id => client.promoteMember(id, userId)),
+        demote: (userId: string) => moderate(id => client.demoteMember(id, userId)),
+        setPassword: (password: string | null) => moderate(id => client.setRoomPassword(id, password)),
+        setPrivate: (isPrivate: boolean) => moderate(id => client.setRoomPrivacy(id, isPrivate)),
+        setCapacity: (maxMembers: number | null) => moderate(id => client.setRoomCapacity(id, maxMembers)),
+        updateSettings: (settings: RoomSettings) => moderate(id => client.updateRoom(id, settings)),
     };
 };
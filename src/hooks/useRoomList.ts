@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+import { GameSocketError, toGameSocketError } from '../client/errors';
+import { Room, RoomListEvent } from '../types';
+import { RoomFilter, RoomSort, isRoomVisible, redactRoom, matchesRoomFilter, sortRooms } from '../logic/roomFilter';
+
+interface UseRoomListOptions {
+    filter?: RoomFilter;
+    sort?: RoomSort;
+    pageSize?: number; // Default 20
+    live?: boolean; // Apply server-pushed room changes. Default true.
+}
+
+/**
+ * Hook for room browsers: a filtered, sorted and paginated room list kept up to date by the server.
+ * Rooms created, changed or closed after loading are added, moved or removed as `room:list` events arrive.
+ *
+ * @param options.filter Only list matching rooms (free slots, not private, metadata...).
+ * @param options.sort Sort order. Default oldest first.
+ * @param options.pageSize Rooms per page. Default 20.
+ * @param options.live If false, the list only changes on `refresh` / `loadMore`. Default true.
+ * @returns `rooms`, `loading`, `error`, `hasMore`, `loadMore()` and `refresh()`.
+ */
+export const useRoomList = ({ filter, sort, pageSize = 20, live = true }: UseRoomListOptions = {}) => {
+    const { client, isConnected } = useGameSocket();
+    const [rooms, setRooms] = useState<Room[]>([]);
+    const [cursor, setCursor] = useState<string | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<GameSocketError | null>(null);
+
+    // Objects passed inline change identity every render; compare them by value
+    const filterKey = JSON.stringify(filter ?? {});
+    const sortKey = JSON.stringify(sort ?? {});
+    const query = useRef({ filter, sort });
+    query.current = { filter, sort };
+    const hasMoreRef = useRef(hasMore);
+    hasMoreRef.current = hasMore;
+
+    // Ignores pages that arrive after the query changed
+    const requestId = useRef(0);
+
+    const load = useCallback(async (from: string | null) => {
+        const id = ++requestId.current;
+        setLoading(true);
+        setError(null);
+        try {
+            const page = await client.rest.queryRooms({ ...query.current, limit: pageSize, cursor: from }, client.getUserId() ?? undefined);
+            if (id !== requestId.current) return;
+            setRooms(prev => {
+                const loaded = from ? [...prev.filter(r => !page.rooms.some(p => p.roomId === r.roomId)), ...page.rooms] : page.rooms;
+                return sortRooms(loaded, query.current.sort);
+            });
+            setCursor(page.nextCursor);
+            setHasMore(page.nextCursor !== null);
+        } catch (err) {
+            if (id === requestId.current) setError(toGameSocketError(err, 'Failed to load rooms'));
+        } finally {
+            if (id === requestId.current) setLoading(false);
+        }
+    }, [client, pageSize, filterKey, sortKey]);
+
+    const refresh = useCallback(() => load(null), [load]);
+
+    const loadMore = useCallback(() => {
+        if (cursor !== null && !loading) return load(cursor);
+        return Promise.resolve();
+    }, [load, cursor, loading]);
+
+    useEffect(() => {
+        if (isConnected) refresh();
+    }, [refresh, isConnected]);
+
+    useEffect(() => {
+        if (!live || !isConnected) return;
+
+        const handleRoomList = (event: RoomListEvent) => {
+            const { filter: currentFilter, sort: currentSort } = query.current;
+            const userId = client.getUserId();
+
+            setRooms(prev => {
+                const others = prev.filter(r => r.roomId !== event.roomId);
+                if (event.type === 'deleted' || !event.room) return others;
+
+                const room = redactRoom(event.room, userId);
+                if (!isRoomVisible(room, userId) || !matchesRoomFilter(room, currentFilter)) return others;
+                // New rooms sorting past the loaded pages show up when their page is loaded
+                const isLoaded = prev.length !== others.length;
+                if (!isLoaded && hasMoreRef.current) {
+                    const sorted = sortRooms([...others, room], currentSort);
+                    if (sorted[sorted.length - 1] === room) return prev;
+                }
+                return sortRooms([...others, room], currentSort);
+            });
+        };
+
+        client.on('room:list', handleRoomList);
+        client.subscribeRoomList().catch(err => console.warn('Room list updates unavailable:', err));
+
+        return () => {
+            client.off('room:list', handleRoomList);
+            client.unsubscribeRoomList();
+        };
+    }, [client, live, isConnected]);
+
+    return { rooms, loading, error, hasMore, loadMore, refresh };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+import { ClockStats } from '../logic/clockSync';
+
+/**
+ * Hook exposing the server clock estimate maintained by the SocketClient.
+ *
+ * @param refreshInterval How often (ms) `now` is refreshed to trigger a re-render. Default 1000ms. Pass 0 to only refresh on clock syncs.
+ * @returns `serverNow()` for reading the server time inside game loops, `now` for rendering (e.g. countdowns), and the current `offset`/`rtt`.
+ */
+export const useServerTime = (refreshInterval: number = 1000) => {
+    const { client } = useGameSocket();
+    const [stats, setStats] = useState<ClockStats>(() => client.getClockStats());
+    const [now, setNow] = useState(() => client.serverNow());
+
+    useEffect(() => {
+        const onSync = (data: ClockStats) => {
+            setStats(data);
+            setNow(client.serverNow());
+        };
+
+        client.on('clock:sync', onSync);
+        return () => {
+            client.off('clock:sync', onSync);
+        };
+    }, [client]);
+
+    useEffect(() => {
+        if (refreshInterval <= 0) return;
+        const interval = setInterval(() => setNow(client.serverNow()), refreshInterval);
+        return () => clearInterval(interval);
+    }, [client, refreshInterval]);
+
+    const serverNow = useCallback(() => client.serverNow(), [client]);
+
+    return {
+        serverNow,
+        now,
+        offset: stats.offset,
+        rtt: stats.rtt,
+        synced: stats.synced
+    };
+};
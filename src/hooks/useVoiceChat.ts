@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useGameSocket } from '../context/GameSocketContext';
+import { VoiceChat, VoiceJoinOptions, VoiceState, PositionalAudioOptions } from '../client/VoiceChat';
+
+interface UseVoiceChatOptions {
+    roomId?: string; // Voice room to join. Defaults to the active room.
+    positional?: PositionalAudioOptions; // Place voices at their speakers' entities
+}
+
+/**
+ * Hook for room voice chat: join and leave, mute / deafen, per-member volume, and who is speaking.
+ * Calls from members of the voice room are answered automatically.
+ *
+ * @param options.roomId Room whose voice chat `join()` enters. Defaults to the active room.
+ * @param options.positional Positional audio, heard from `listenerEntityId`.
+ * @returns The voice state (`roomId`, `inVoice`, `muted`, `deafened`, `speaking`, `participants`), `error`,
+ * and `join(options?)`, `leave()`, `setMuted`, `toggleMute`, `setDeafened`, `setVolume`.
+ */
+export const useVoiceChat = ({ roomId, positional }: UseVoiceChatOptions = {}) => {
+    const { currentRoom } = useGameSocket();
+    const [voice] = useState(() => VoiceChat.getInstance());
+    const [state, setState] = useState<VoiceState>(() => voice.getState());
+    const [error, setError] = useState<Error | null>(null);
+    const targetRoom = roomId ?? currentRoom?.roomId;
+
+    useEffect(() => {
+        setState(voice.getState());
+        return voice.subscribe(() => setState(voice.getState()));
+    }, [voice]);
+
+    // Options objects passed inline change identity every render; compare them by value
+    const positionalKey = positional ? JSON.stringify({ ...positional, speakerEntityId: !!positional.speakerEntityId }) : null;
+    useEffect(() => {
+        if (state.roomId) voice.setPositional(positional ?? null);
+    }, [voice, positionalKey, state.roomId]);
+
+    const join = useCallback(async (options: Omit<VoiceJoinOptions, 'positional'> = {}) => {
+        if (!targetRoom) {
+            setError(new Error('Join a room before joining voice chat'));
+            return false;
+        }
+        setError(null);
+        try {
+            await voice.join(targetRoom, { ...options, positional });
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error(String(err)));
+            return false;
+        }
+    }, [voice, targetRoom, positional]);
+
+    const leave = useCallback(() => voice.leave(), [voice]);
+    const setMuted = useCallback((muted: boolean) => voice.setMuted(muted), [voice]);
+    const toggleMute = useCallback(() => voice.setMuted(!voice.getState().muted), [voice]);
+    const setDeafened = useCallback((deafened: boolean) => voice.setDeafened(deafened), [voice]);
+    const setVolume = useCallback((userId: string, volume: number) => voice.setVolume(userId, volume), [voice]);
+
+    return {
+        ...state,
+        inVoice: state.roomId !== null,
+        error,
+        join,
+        leave,
+        setMuted,
+        toggleMute,
+        setDeafened,
+        setVolume,
+    };
+};
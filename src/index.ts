@@ -2,15 +2,44 @@
 export { SocketClient } from './client/SocketClient';
 export { RestApiClient } from './client/RestApiClient';
 export { PeerClient } from './client/PeerClient';
+export { MessageRouter, fullMeshOrRelay } from './client/MessageRouter';
+export type { Route, RouteContext, RoutingStrategy } from './client/MessageRouter';
+export { SocketTransport, RestTransport } from './client/transports';
+export type { Transport } from './client/transports';
+export { Outbox } from './client/Outbox';
+export type { OutboxPolicy, OutboxOptions, QueuedMessage } from './client/Outbox';
+export * from './client/errors';
+export { RoomChannel } from './client/RoomChannel';
+export { HostedMatch } from './client/HostedMatch';
+export type { HostedMatchOptions, HostInput, HostStepFunction, HostStatePayload, HostInputPayload, HostHandoverPayload } from './client/HostedMatch';
+export { VoiceChat } from './client/VoiceChat';
+export type { VoiceJoinOptions, VoiceState, VoiceParticipant, SpeakingEvent, PositionalAudioOptions } from './client/VoiceChat';
+export { EntityManager } from './client/EntityManager';
+export type { WorldSnapshot, EntityUpdateMeta, EntityUpdateSource, EntitySender } from './client/EntityManager';
+export { NetworkEntityRegistry } from './client/NetworkEntityRegistry';
+export type { EntitySpawnPayload, WorldFullSnapshot, SpawnOptions } from './client/NetworkEntityRegistry';
+export { JsonSerializer, BinarySerializer, createSerializer, isBinary } from './client/serializers';
+export type { Serializer, SerializerOption, SerializerOptions, BinarySerializerOptions, SerializerStats, SizeStats } from './client/serializers';
+export { NetworkEntity } from './client/NetworkEntity';
+export type { NetworkEntityOptions, AuthoritativeState, OwnershipAnnouncement, OwnershipChangeReason, OwnerLeavePolicy } from './client/NetworkEntity';
 
 // Context & Hooks
 export { GameSocketProvider, useGameSocket } from './context/GameSocketContext';
 export { useRoom } from './hooks/useRoom';
 export { useNetworkEntity } from './hooks/useNetworkEntity';
+export { useServerTime } from './hooks/useServerTime';
+export { useNetworkEntities } from './hooks/useNetworkEntities';
+export { useRoomList } from './hooks/useRoomList';
+export { useMatchmaking } from './hooks/useMatchmaking';
+export type { MatchmakingStatus } from './hooks/useMatchmaking';
+export { useVoiceChat } from './hooks/useVoiceChat';
+export { usePeers } from './hooks/usePeers';
+export { useHostedMatch } from './hooks/useHostedMatch';
 
 // Components
 export { GameConnection } from './components/GameConnection';
 export { ChatBox } from './components/ChatBox';
+export { RoomBrowser } from './components/RoomBrowser';
 export { NetworkTransform2D } from './components/NetworkTransform2D';
 export { NetworkTransform3D } from './components/NetworkTransform3D';
 
@@ -19,3 +48,10 @@ export * from './types';
 
 // Logic
 export * from './logic/interpolation';
+export * from './logic/snapshotBuffer';
+export * from './logic/clockSync';
+export * from './logic/prediction';
+export * from './logic/delta';
+export * from './logic/election';
+export * from './logic/roomFilter';
+export * from './logic/binaryCodec';
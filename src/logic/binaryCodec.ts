@@ -0,0 +1,488 @@
+import { EntityUpdatePayload } from './delta';
+
+/**
+ * How one field of an entity schema is written.
+ * - `bool`, `string`, `float32`, `float64`: as named.
+ * - `uint` / `int`: varints (zigzag for `int`), 1 byte below 128.
+ * - `quantized`: a float clamped to [min, max] and stored on `bits` bits (default 16).
+ * - `angle`: radians stored on `bits` bits (default 12), read back in [-π, π).
+ * - `json`: anything else, as a JSON string.
+ */
+export type FieldType =
+    | 'bool'
+    | 'uint'
+    | 'int'
+    | 'float32'
+    | 'float64'
+    | 'string'
+    | 'json'
+    | { type: 'quantized'; min: number; max: number; bits?: number }
+    | { type: 'angle'; bits?: number };
+
+/**
+ * Field layout of an entity type's state. Fields outside the schema still go through, JSON-encoded.
+ *
+ * @example
+ * const ship: EntitySchema = {
+ *     x: { type: 'quantized', min: 0, max: 4096, bits: 16 },
+ *     y: { type: 'quantized', min: 0, max: 4096, bits: 16 },
+ *     rotation: { type: 'angle' },
+ *     hp: 'uint',
+ * };
+ */
+export type EntitySchema = Record<string, FieldType>;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Growable byte buffer with varint, float and string writers.
+ */
+export class ByteWriter {
+    private buffer: Uint8Array;
+    private view: DataView;
+    private offset = 0;
+
+    constructor(initialSize: number = 256) {
+        this.buffer = new Uint8Array(initialSize);
+        this.view = new DataView(this.buffer.buffer);
+    }
+
+    private ensure(size: number) {
+        if (this.offset + size <= this.buffer.length) return;
+        let length = this.buffer.length * 2;
+        while (length < this.offset + size) length *= 2;
+        const next = new Uint8Array(length);
+        next.set(this.buffer);
+        this.buffer = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    public writeUint8(value: number) {
+        this.ensure(1);
+        this.buffer[this.offset++] = value & 0xff;
+    }
+
+    // Arithmetic rather than bit operators, so values above 2^31 survive
+    public writeVarUint(value: number) {
+        let remaining = Math.max(0, Math.floor(value));
+        this.ensure(8);
+        while (remaining >= 0x80) {
+            this.buffer[this.offset++] = (remaining % 0x80) | 0x80;
+            remaining = Math.floor(remaining / 0x80);
+        }
+        this.buffer[this.offset++] = remaining;
+    }
+
+    public writeVarInt(value: number) {
+        this.writeVarUint(value >= 0 ? value * 2 : -value * 2 - 1);
+    }
+
+    public writeFloat32(value: number) {
+        this.ensure(4);
+        this.view.setFloat32(this.offset, value, true);
+        this.offset += 4;
+    }
+
+    public writeFloat64(value: number) {
+        this.ensure(8);
+        this.view.setFloat64(this.offset, value, true);
+        this.offset += 8;
+    }
+
+    // Little-endian unsigned integer on `bytes` bytes
+    public writeFixed(value: number, bytes: number) {
+        this.ensure(bytes);
+        for (let i = 0; i < bytes; i++) {
+            this.buffer[this.offset++] = value % 256;
+            value = Math.floor(value / 256);
+        }
+    }
+
+    public writeBytes(bytes: Uint8Array) {
+        this.writeVarUint(bytes.length);
+        this.ensure(bytes.length);
+        this.buffer.set(bytes, this.offset);
+        this.offset += bytes.length;
+    }
+
+    public writeString(value: string) {
+        this.writeBytes(encoder.encode(value));
+    }
+
+    public finish(): Uint8Array {
+        return this.buffer.slice(0, this.offset);
+    }
+}
+
+export class ByteReader {
+    private bytes: Uint8Array;
+    private view: DataView;
+    private offset = 0;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    private check(size: number) {
+        if (this.offset + size > this.bytes.length) throw new RangeError('Binary message truncated');
+    }
+
+    public readUint8(): number {
+        this.check(1);
+        return this.bytes[this.offset++];
+    }
+
+    public readVarUint(): number {
+        let value = 0;
+        let scale = 1;
+        for (;;) {
+            const byte = this.readUint8();
+            value += (byte & 0x7f) * scale;
+            if (byte < 0x80) return value;
+            scale *= 0x80;
+        }
+    }
+
+    public readVarInt(): number {
+        const raw = this.readVarUint();
+        return raw % 2 === 0 ? raw / 2 : -(raw + 1) / 2;
+    }
+
+    public readFloat32(): number {
+        this.check(4);
+        const value = this.view.getFloat32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    public readFloat64(): number {
+        this.check(8);
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return value;
+    }
+
+    public readFixed(bytes: number): number {
+        this.check(bytes);
+        let value = 0;
+        let scale = 1;
+        for (let i = 0; i < bytes; i++) {
+            value += this.bytes[this.offset++] * scale;
+            scale *= 256;
+        }
+        return value;
+    }
+
+    public readBytes(): Uint8Array {
+        const length = this.readVarUint();
+        this.check(length);
+        const bytes = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return bytes;
+    }
+
+    public readString(): string {
+        return decoder.decode(this.readBytes());
+    }
+}
+
+// Schema fields
+const TWO_PI = Math.PI * 2;
+
+const quantize = (value: number, min: number, max: number, bits: number): number => {
+    const steps = 2 ** bits - 1;
+    const clamped = Math.min(max, Math.max(min, value));
+    return Math.round(((clamped - min) / (max - min)) * steps);
+};
+
+const writeField = (writer: ByteWriter, type: FieldType, value: any) => {
+    if (typeof type === 'object') {
+        const bits = type.bits ?? (type.type === 'angle' ? 12 : 16);
+        const bytes = Math.ceil(bits / 8);
+        if (type.type === 'angle') {
+            const wrapped = ((Number(value) % TWO_PI) + TWO_PI) % TWO_PI;
+            writer.writeFixed(Math.round((wrapped / TWO_PI) * 2 ** bits) % 2 ** bits, bytes);
+        } else {
+            writer.writeFixed(quantize(Number(value), type.min, type.max, bits), bytes);
+        }
+        return;
+    }
+    switch (type) {
+        case 'bool': writer.writeUint8(value ? 1 : 0); break;
+        case 'uint': writer.writeVarUint(Number(value)); break;
+        case 'int': writer.writeVarInt(Math.round(Number(value))); break;
+        case 'float32': writer.writeFloat32(Number(value)); break;
+        case 'float64': writer.writeFloat64(Number(value)); break;
+        case 'string': writer.writeString(String(value)); break;
+        default: writer.writeString(JSON.stringify(value) ?? 'null');
+    }
+};
+
+const readField = (reader: ByteReader, type: FieldType): any => {
+    if (typeof type === 'object') {
+        const bits = type.bits ?? (type.type === 'angle' ? 12 : 16);
+        const raw = reader.readFixed(Math.ceil(bits / 8));
+        if (type.type === 'angle') {
+            const angle = (raw / 2 ** bits) * TWO_PI;
+            return angle >= Math.PI ? angle - TWO_PI : angle;
+        }
+        return type.min + (raw / (2 ** bits - 1)) * (type.max - type.min);
+    }
+    switch (type) {
+        case 'bool': return reader.readUint8() === 1;
+        case 'uint': return reader.readVarUint();
+        case 'int': return reader.readVarInt();
+        case 'float32': return reader.readFloat32();
+        case 'float64': return reader.readFloat64();
+        case 'string': return reader.readString();
+        default: return JSON.parse(reader.readString());
+    }
+};
+
+/**
+ * Writes an object with a schema: a presence bitmask over the schema's fields, their values,
+ * then any other fields as a tagged value (null when there are none).
+ */
+export const writeSchemaObject = (writer: ByteWriter, schema: EntitySchema, value: Record<string, any>) => {
+    const fields = Object.keys(schema);
+    const mask = new Uint8Array(Math.ceil(fields.length / 8));
+    fields.forEach((field, i) => {
+        if (value[field] !== undefined) mask[i >> 3] |= 1 << (i & 7);
+    });
+    mask.forEach(byte => writer.writeUint8(byte));
+    fields.forEach(field => {
+        if (value[field] !== undefined) writeField(writer, schema[field], value[field]);
+    });
+
+    const extras: Record<string, any> = {};
+    let hasExtras = false;
+    for (const key in value) {
+        if (Object.prototype.hasOwnProperty.call(schema, key) || value[key] === undefined) continue;
+        extras[key] = value[key];
+        hasExtras = true;
+    }
+    writeValue(writer, hasExtras ? extras : null);
+};
+
+export const readSchemaObject = (reader: ByteReader, schema: EntitySchema): Record<string, any> => {
+    const fields = Object.keys(schema);
+    const mask: number[] = [];
+    for (let i = 0; i < Math.ceil(fields.length / 8); i++) mask.push(reader.readUint8());
+
+    const value: Record<string, any> = {};
+    fields.forEach((field, i) => {
+        if (mask[i >> 3] & (1 << (i & 7))) value[field] = readField(reader, schema[field]);
+    });
+    const extras = readValue(reader);
+    return extras ? { ...extras, ...value } : value;
+};
+
+// Schemaless values: a tag byte, then the value
+const enum Tag {
+    Null = 0,
+    False = 1,
+    True = 2,
+    Int = 3,
+    Float32 = 4,
+    Float64 = 5,
+    String = 6,
+    Array = 7,
+    Object = 8,
+}
+
+/**
+ * Writes any JSON-compatible value, more compactly than JSON: varint integers, 4-byte floats when exact.
+ */
+export const writeValue = (writer: ByteWriter, value: any): void => {
+    if (value === null || value === undefined) {
+        writer.writeUint8(Tag.Null);
+    } else if (typeof value === 'boolean') {
+        writer.writeUint8(value ? Tag.True : Tag.False);
+    } else if (typeof value === 'number') {
+        if (Number.isSafeInteger(value)) {
+            writer.writeUint8(Tag.Int);
+            writer.writeVarInt(value);
+        } else if (Math.fround(value) === value) {
+            writer.writeUint8(Tag.Float32);
+            writer.writeFloat32(value);
+        } else {
+            writer.writeUint8(Tag.Float64);
+            writer.writeFloat64(value);
+        }
+    } else if (typeof value === 'string') {
+        writer.writeUint8(Tag.String);
+        writer.writeString(value);
+    } else if (Array.isArray(value)) {
+        writer.writeUint8(Tag.Array);
+        writer.writeVarUint(value.length);
+        value.forEach(item => writeValue(writer, item));
+    } else if (typeof value === 'object') {
+        // Like JSON: honour toJSON (dates), skip undefined fields
+        if (typeof value.toJSON === 'function') {
+            writeValue(writer, value.toJSON());
+            return;
+        }
+        const keys = Object.keys(value).filter(key => value[key] !== undefined);
+        writer.writeUint8(Tag.Object);
+        writer.writeVarUint(keys.length);
+        keys.forEach(key => {
+            writer.writeString(key);
+            writeValue(writer, value[key]);
+        });
+    } else {
+        writer.writeUint8(Tag.Null);
+    }
+};
+
+export const readValue = (reader: ByteReader): any => {
+    const tag = reader.readUint8();
+    switch (tag) {
+        case Tag.Null: return null;
+        case Tag.False: return false;
+        case Tag.True: return true;
+        case Tag.Int: return reader.readVarInt();
+        case Tag.Float32: return reader.readFloat32();
+        case Tag.Float64: return reader.readFloat64();
+        case Tag.String: return reader.readString();
+        case Tag.Array: {
+            const length = reader.readVarUint();
+            const items = [];
+            for (let i = 0; i < length; i++) items.push(readValue(reader));
+            return items;
+        }
+        case Tag.Object: {
+            const count = reader.readVarUint();
+            const value: Record<string, any> = {};
+            for (let i = 0; i < count; i++) {
+                const key = reader.readString();
+                value[key] = readValue(reader);
+            }
+            return value;
+        }
+        default: throw new RangeError(`Unknown value tag ${tag}`);
+    }
+};
+
+// Entity updates
+/**
+ * Hash of a schema's fields and types (never 0), sent with the type table so a client holding
+ * a different schema refuses the message instead of misreading it.
+ */
+export const schemaFingerprint = (schema: EntitySchema): number => {
+    const text = JSON.stringify(Object.entries(schema));
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash || 1;
+};
+
+const enum UpdateFlag {
+    Seq = 1,
+    BaseSeq = 2,
+    State = 4, // Full state, otherwise a delta
+    Removed = 8,
+    Owner = 16,
+    Type = 32,
+}
+
+// A delta field set to undefined clears it; undefined isn't written, so send it as removed instead
+const withClearedFieldsRemoved = (update: EntityUpdatePayload<any>): EntityUpdatePayload<any> => {
+    const { delta } = update;
+    if (!delta) return update;
+    const cleared = Object.keys(delta).filter(key => delta[key] === undefined);
+    if (cleared.length === 0) return update;
+    return { ...update, removed: [...new Set([...(update.removed ?? []), ...cleared])] };
+};
+
+/**
+ * Writes entity updates, using the schema of each update's `type` when there is one.
+ * Type names are written once per message, in a table the updates refer to by index.
+ */
+export const writeEntityUpdates = (writer: ByteWriter, updates: EntityUpdatePayload<any>[], schemas: Map<string, EntitySchema>) => {
+    const types = [...new Set(updates.map(u => u.type).filter((type): type is string => !!type))];
+    writer.writeVarUint(types.length);
+    types.forEach(type => {
+        const schema = schemas.get(type);
+        writer.writeString(type);
+        writer.writeVarUint(schema ? schemaFingerprint(schema) : 0);
+    });
+
+    writer.writeVarUint(updates.length);
+    updates.forEach(original => {
+        const update = withClearedFieldsRemoved(original);
+        let flags = 0;
+        if (update.seq !== undefined) flags |= UpdateFlag.Seq;
+        if (update.baseSeq !== undefined) flags |= UpdateFlag.BaseSeq;
+        if (update.state !== undefined) flags |= UpdateFlag.State;
+        if (update.removed?.length) flags |= UpdateFlag.Removed;
+        if (update.owner !== undefined) flags |= UpdateFlag.Owner;
+        if (update.type) flags |= UpdateFlag.Type;
+        writer.writeUint8(flags);
+
+        writer.writeString(update.entityId);
+        if (update.seq !== undefined) writer.writeVarUint(update.seq);
+        if (update.baseSeq !== undefined) writer.writeVarUint(update.baseSeq);
+        if (update.type) writer.writeVarUint(types.indexOf(update.type));
+
+        const body = update.state ?? update.delta ?? {};
+        const schema = update.type ? schemas.get(update.type) : undefined;
+        if (schema) writeSchemaObject(writer, schema, body);
+        else writeValue(writer, body);
+
+        if (update.removed?.length) {
+            writer.writeVarUint(update.removed.length);
+            update.removed.forEach(key => writer.writeString(String(key)));
+        }
+        if (update.owner !== undefined) {
+            writer.writeString(update.owner);
+            writer.writeVarUint(update.ownerVersion ?? 0);
+        }
+    });
+};
+
+export const readEntityUpdates = (reader: ByteReader, schemas: Map<string, EntitySchema>): EntityUpdatePayload<any>[] => {
+    const types: string[] = [];
+    const typeCount = reader.readVarUint();
+    for (let i = 0; i < typeCount; i++) {
+        const type = reader.readString();
+        const fingerprint = reader.readVarUint();
+        const schema = schemas.get(type);
+        // Without the sender's exact schema the fields can't be read back
+        if (fingerprint !== (schema ? schemaFingerprint(schema) : 0)) {
+            throw new Error(`Schema '${type}' doesn't match the sender's; define the same schema on every client`);
+        }
+        types.push(type);
+    }
+
+    const updates: EntityUpdatePayload<any>[] = [];
+    const count = reader.readVarUint();
+    for (let i = 0; i < count; i++) {
+        const flags = reader.readUint8();
+        const update: EntityUpdatePayload<any> = { entityId: reader.readString() };
+        if (flags & UpdateFlag.Seq) update.seq = reader.readVarUint();
+        if (flags & UpdateFlag.BaseSeq) update.baseSeq = reader.readVarUint();
+        if (flags & UpdateFlag.Type) update.type = types[reader.readVarUint()];
+
+        const schema = update.type ? schemas.get(update.type) : undefined;
+        const body = schema ? readSchemaObject(reader, schema) : readValue(reader);
+        if (flags & UpdateFlag.State) update.state = body;
+        else update.delta = body;
+
+        if (flags & UpdateFlag.Removed) {
+            const removed: string[] = [];
+            const length = reader.readVarUint();
+            for (let j = 0; j < length; j++) removed.push(reader.readString());
+            update.removed = removed;
+        }
+        if (flags & UpdateFlag.Owner) {
+            update.owner = reader.readString();
+            update.ownerVersion = reader.readVarUint();
+        }
+        updates.push(update);
+    }
+    return updates;
+};
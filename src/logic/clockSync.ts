@@ -0,0 +1,68 @@
+/**
+ * Snapshot of the current clock synchronization estimate.
+ */
+export interface ClockStats {
+    offset: number; // ms to add to the local clock to get server time
+    rtt: number; // smoothed round-trip time in ms
+    synced: boolean;
+    samples: number;
+}
+
+/**
+ * NTP-style clock estimator. Feed it ping/pong samples and it keeps a smoothed
+ * offset and round-trip time, discarding samples whose RTT is an outlier
+ * (those are the ones most likely to have an asymmetric path).
+ */
+export class ClockSync {
+    private offset = 0;
+    private rtt = 0;
+    private samples = 0;
+    private smoothing: number;
+
+    constructor(smoothing: number = 0.2) {
+        this.smoothing = smoothing;
+    }
+
+    /**
+     * Adds one measurement.
+     * @param sentAt Local time the ping was sent.
+     * @param serverTs Server time carried by the pong.
+     * @param receivedAt Local time the pong arrived.
+     */
+    public addSample(sentAt: number, serverTs: number, receivedAt: number) {
+        const rtt = Math.max(0, receivedAt - sentAt);
+        // Assume the server stamped the reply halfway through the round trip
+        const offset = serverTs - (sentAt + rtt / 2);
+
+        if (this.samples === 0) {
+            this.offset = offset;
+            this.rtt = rtt;
+        } else {
+            // Slow replies carry mostly queueing noise; keep them out of the offset
+            if (rtt <= this.rtt * 1.5 + 5) {
+                this.offset += (offset - this.offset) * this.smoothing;
+            }
+            this.rtt += (rtt - this.rtt) * this.smoothing;
+        }
+        this.samples++;
+    }
+
+    public now(localNow: number = Date.now()): number {
+        return localNow + this.offset;
+    }
+
+    public getStats(): ClockStats {
+        return {
+            offset: this.offset,
+            rtt: this.rtt,
+            synced: this.samples > 0,
+            samples: this.samples,
+        };
+    }
+
+    public reset() {
+        this.offset = 0;
+        this.rtt = 0;
+        this.samples = 0;
+    }
+}
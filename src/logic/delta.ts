@@ -0,0 +1,164 @@
+/**
+ * Wire format of `entity:update` payloads.
+ * Keyframes carry the full `state`; deltas carry only the fields that changed since `baseSeq`.
+ * Payloads without `seq` (older clients) are treated as keyframes.
+ */
+export interface EntityUpdatePayload<T> {
+    entityId: string;
+    seq?: number;
+    state?: T;
+    baseSeq?: number;
+    delta?: Partial<T>;
+    removed?: (keyof T)[];
+    owner?: string; // Keyframes only: current owner userId
+    ownerVersion?: number;
+    type?: string; // Binary schema the state is encoded with (see `BinarySerializer.defineSchema`)
+}
+
+/**
+ * Returns the fields of `next` that differ from `base`, and the keys that were removed.
+ */
+export const diffState = <T extends Record<string, any>>(base: T, next: T): { changed: Partial<T>; removed: (keyof T)[] } => {
+    const changed: Partial<T> = {};
+    const removed: (keyof T)[] = [];
+
+    for (const key in next) {
+        if (next[key] !== base[key]) changed[key] = next[key];
+    }
+    for (const key in base) {
+        if (!(key in next)) removed.push(key);
+    }
+    return { changed, removed };
+};
+
+export const applyDelta = <T extends Record<string, any>>(base: T, delta: Partial<T>, removed: (keyof T)[] = []): T => {
+    const result: T = { ...base, ...delta };
+    for (const key of removed) delete result[key];
+    return result;
+};
+
+export interface DeltaEncoderOptions {
+    keyframeInterval?: number; // ms between full states, so late joiners can resync
+}
+
+/**
+ * Sender side of delta compression.
+ * Deltas are always taken against the last state the server acknowledged, so a lost or
+ * still-in-flight update never corrupts what receivers reconstruct.
+ */
+export class DeltaEncoder<T extends Record<string, any>> {
+    private seq = 0;
+    private keyframeInterval: number;
+    private lastKeyframeAt = -Infinity;
+    private lastSent: T | null = null;
+    private baseline: { seq: number; state: T } | null = null;
+    private inFlight: Map<number, T> = new Map();
+
+    constructor(options: DeltaEncoderOptions = {}) {
+        this.keyframeInterval = options.keyframeInterval ?? 2000;
+    }
+
+    public configure(options: DeltaEncoderOptions) {
+        if (options.keyframeInterval !== undefined) this.keyframeInterval = options.keyframeInterval;
+    }
+
+    public isKeyframeDue(now: number = Date.now()): boolean {
+        return !this.baseline || now - this.lastKeyframeAt >= this.keyframeInterval;
+    }
+
+    /**
+     * Encodes `state` for sending.
+     * @returns The payload, or null if no field changed since the last send and no keyframe is due.
+     */
+    public encode(entityId: string, state: T, now: number = Date.now()): EntityUpdatePayload<T> | null {
+        const keyframe = this.isKeyframeDue(now);
+
+        // Dirty tracking: skip the send entirely if nothing moved since the last one
+        if (!keyframe && this.lastSent) {
+            const dirty = diffState(this.lastSent, state);
+            if (Object.keys(dirty.changed).length === 0 && dirty.removed.length === 0) return null;
+        }
+
+        const seq = ++this.seq;
+        this.lastSent = state;
+        this.inFlight.set(seq, state);
+
+        if (keyframe || !this.baseline) {
+            this.lastKeyframeAt = now;
+            return { entityId, seq, state };
+        }
+
+        const { changed, removed } = diffState(this.baseline.state, state);
+        const payload: EntityUpdatePayload<T> = { entityId, seq, baseSeq: this.baseline.seq, delta: changed };
+        if (removed.length > 0) payload.removed = removed;
+        return payload;
+    }
+
+    /**
+     * Marks an update as received by the server, making it the baseline for future deltas.
+     */
+    public acknowledge(seq: number) {
+        const state = this.inFlight.get(seq);
+        if (!state) return;
+
+        if (!this.baseline || seq > this.baseline.seq) {
+            this.baseline = { seq, state };
+        }
+        this.inFlight.forEach((_, s) => {
+            if (s <= seq) this.inFlight.delete(s);
+        });
+    }
+
+    public forceKeyframe() {
+        this.lastKeyframeAt = -Infinity;
+    }
+
+    public reset() {
+        this.lastSent = null;
+        this.baseline = null;
+        this.inFlight.clear();
+        this.forceKeyframe();
+    }
+}
+
+/**
+ * Receiver side of delta compression. Keeps recent reconstructed states by sequence number
+ * so deltas can be applied to the exact baseline they were computed against.
+ */
+export class DeltaDecoder<T extends Record<string, any>> {
+    private states: Map<number, T> = new Map();
+    private maxHistory: number;
+
+    constructor(maxHistory: number = 64) {
+        this.maxHistory = maxHistory;
+    }
+
+    /**
+     * @returns The full state, or null if the delta's baseline is unknown (wait for the next keyframe).
+     */
+    public decode(payload: EntityUpdatePayload<T>): T | null {
+        let state: T;
+        if (payload.state) {
+            state = payload.state;
+        } else if (payload.delta && payload.baseSeq !== undefined) {
+            const base = this.states.get(payload.baseSeq);
+            if (!base) return null;
+            state = applyDelta(base, payload.delta, payload.removed);
+        } else {
+            return null;
+        }
+
+        if (payload.seq !== undefined) {
+            this.states.set(payload.seq, state);
+            if (this.states.size > this.maxHistory) {
+                const oldest = this.states.keys().next().value;
+                if (oldest !== undefined) this.states.delete(oldest);
+            }
+        }
+        return state;
+    }
+
+    public reset() {
+        this.states.clear();
+    }
+}
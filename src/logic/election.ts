@@ -0,0 +1,27 @@
+import { Member } from '../types';
+
+export interface ElectionOptions {
+    exclude?: string[]; // userIds that can't be elected (e.g. the member who just left)
+    preferAdmins?: boolean; // Pick the oldest admin if there is one
+    admins?: string[]; // Extra admin userIds, e.g. `Room.admins`
+}
+
+/**
+ * Orders members by `joinedAt`, oldest first. Ties are broken by userId so every client agrees.
+ */
+export const sortBySeniority = (members: Member[]): Member[] => {
+    return [...members].sort((a, b) => (a.joinedAt - b.joinedAt) || (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0));
+};
+
+/**
+ * Deterministically picks a member: the oldest one, or the oldest admin when `preferAdmins` is set.
+ * Every client running this on the same member list gets the same answer.
+ */
+export const electOldestMember = (members: Member[], options: ElectionOptions = {}): Member | null => {
+    const candidates = sortBySeniority(members.filter(m => !options.exclude?.includes(m.userId)));
+    if (options.preferAdmins) {
+        const admin = candidates.find(m => m.isAdmin || options.admins?.includes(m.userId));
+        if (admin) return admin;
+    }
+    return candidates[0] ?? null;
+};
@@ -0,0 +1,88 @@
+/**
+ * Pure function that advances an entity's state by one input.
+ * Must be deterministic: the server runs the same logic.
+ */
+export type StepFunction<T, I> = (state: T, input: I) => T;
+
+/**
+ * Per-field difference between the corrected and the predicted state.
+ * Only numeric fields are reported.
+ */
+export type StateError<T> = Partial<Record<keyof T, number>>;
+
+export interface PendingInput<I> {
+    seq: number;
+    input: I;
+}
+
+/**
+ * Client-side prediction for an owned entity.
+ * Inputs are applied locally right away and kept until the server acknowledges them;
+ * when an authoritative state arrives, the unacknowledged inputs are replayed on top of it.
+ */
+export class PredictionBuffer<T extends Record<string, any>, I = any> {
+    private seq = 0;
+    private pending: PendingInput<I>[] = [];
+    private state: T;
+    private step: StepFunction<T, I>;
+
+    constructor(initialState: T, step: StepFunction<T, I>) {
+        this.state = initialState;
+        this.step = step;
+    }
+
+    public setStep(step: StepFunction<T, I>) {
+        this.step = step;
+    }
+
+    /**
+     * Applies an input locally and records it for replay.
+     * @returns The sequence number to send with the input, and the predicted state.
+     */
+    public applyInput(input: I): { seq: number; state: T } {
+        const seq = ++this.seq;
+        this.pending.push({ seq, input });
+        this.state = this.step(this.state, input);
+        return { seq, state: this.state };
+    }
+
+    /**
+     * Rebases the prediction on an authoritative state.
+     * @param authoritative State computed by the server.
+     * @param lastProcessedSeq Highest input sequence the server has applied to that state.
+     * @returns The corrected state and how far it is from what we had predicted.
+     */
+    public reconcile(authoritative: T, lastProcessedSeq: number): { state: T; error: StateError<T> } {
+        this.pending = this.pending.filter(p => p.seq > lastProcessedSeq);
+
+        let corrected = authoritative;
+        for (const p of this.pending) {
+            corrected = this.step(corrected, p.input);
+        }
+
+        const error: StateError<T> = {};
+        for (const key in corrected) {
+            const predicted = this.state[key];
+            const actual = corrected[key];
+            if (typeof predicted === 'number' && typeof actual === 'number' && predicted !== actual) {
+                error[key] = actual - predicted;
+            }
+        }
+
+        this.state = corrected;
+        return { state: corrected, error };
+    }
+
+    public get current(): T {
+        return this.state;
+    }
+
+    public get pendingCount(): number {
+        return this.pending.length;
+    }
+
+    public reset(state: T) {
+        this.state = state;
+        this.pending = [];
+    }
+}
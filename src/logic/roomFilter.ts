@@ -0,0 +1,71 @@
+import { Room } from '../types';
+
+export interface RoomFilter {
+    hasFreeSlots?: boolean; // Only rooms below `maxMembers` (rooms without a limit always match)
+    excludePrivate?: boolean; // Hide private rooms, even ones we are in
+    excludeLocked?: boolean; // Hide password-protected rooms
+    meta?: Record<string, any>; // Every key must equal the room's `meta` value
+    search?: string; // Case-insensitive match on the room id
+}
+
+export type RoomSortKey = 'createdAt' | 'members' | 'roomId' | 'freeSlots';
+
+export interface RoomSort {
+    by: RoomSortKey;
+    order?: 'asc' | 'desc'; // Default 'asc'
+}
+
+/**
+ * Whether a private room should be listed for this user (members and admins only).
+ * Fallback for servers that don't filter by `userId`: the room was still downloaded.
+ */
+export const isRoomVisible = (room: Room, userId?: string | null): boolean => {
+    if (!room.isPrivate) return true;
+    if (!userId) return false;
+    return !!room.members?.some(m => m.userId === userId) || !!room.admins?.includes(userId);
+};
+
+/**
+ * Drops the password for everyone but the room's admins, keeping `hasPassword`.
+ * Display only: a server that returns passwords has already sent them to the client.
+ */
+export const redactRoom = (room: Room, userId?: string | null): Room => {
+    if (userId && room.admins?.includes(userId)) return room;
+    return { ...room, password: undefined, hasPassword: room.hasPassword ?? !!room.password };
+};
+
+export const matchesRoomFilter = (room: Room, filter: RoomFilter = {}): boolean => {
+    if (filter.hasFreeSlots && room.maxMembers !== undefined && (room.members?.length ?? 0) >= room.maxMembers) return false;
+    if (filter.excludePrivate && room.isPrivate) return false;
+    if (filter.excludeLocked && (room.hasPassword || room.password)) return false;
+    if (filter.search && !room.roomId.toLowerCase().includes(filter.search.toLowerCase())) return false;
+    if (filter.meta) {
+        for (const [key, value] of Object.entries(filter.meta)) {
+            if (room.meta?.[key] !== value) return false;
+        }
+    }
+    return true;
+};
+
+const sortValue = (room: Room, by: RoomSortKey): number | string => {
+    const members = room.members?.length ?? 0;
+    switch (by) {
+        case 'members': return members;
+        case 'roomId': return room.roomId;
+        case 'freeSlots': return room.maxMembers === undefined ? Infinity : room.maxMembers - members;
+        default: return room.createdAt;
+    }
+};
+
+/**
+ * Sorts rooms without mutating the input. Ties are broken by roomId so pages stay stable.
+ */
+export const sortRooms = (rooms: Room[], sort: RoomSort = { by: 'createdAt' }): Room[] => {
+    const direction = sort.order === 'desc' ? -1 : 1;
+    return [...rooms].sort((a, b) => {
+        const va = sortValue(a, sort.by);
+        const vb = sortValue(b, sort.by);
+        if (va !== vb) return (va < vb ? -1 : 1) * direction;
+        return a.roomId < b.roomId ? -1 : a.roomId > b.roomId ? 1 : 0;
+    });
+};
@@ -0,0 +1,139 @@
+import { interpolateState } from './interpolation';
+import { diffState } from './delta';
+
+/**
+ * A state received from the network, stamped with the sender's timestamp.
+ */
+export interface Snapshot<T> {
+    ts: number;
+    state: T;
+}
+
+export interface SnapshotBufferOptions {
+    interpolationDelay?: number; // ms to render behind the newest known time
+    maxExtrapolation?: number; // ms we may predict past the newest snapshot when the buffer runs dry
+    maxSnapshots?: number;
+}
+
+/**
+ * Time-ordered buffer of remote snapshots for a single entity.
+ * Renders `interpolationDelay` ms in the past, interpolating between the two snapshots
+ * surrounding the render time, and extrapolating a bounded amount when no newer snapshot exists.
+ */
+export class SnapshotBuffer<T extends Record<string, any>> {
+    private snapshots: Snapshot<T>[] = [];
+    private interpolationDelay: number;
+    private maxExtrapolation: number;
+    private maxSnapshots: number;
+
+    // Estimated (local clock - sender clock). Includes one-way latency, which is what we want
+    // when rendering relative to the sender's timeline.
+    private clockOffset: number | null = null;
+
+    // Last interpolated result and what it was computed from, so an idle entity keeps returning the same object
+    private lastBlend: { from: Snapshot<T>; to: Snapshot<T>; t: number; state: T } | null = null;
+
+    constructor(options: SnapshotBufferOptions = {}) {
+        this.interpolationDelay = options.interpolationDelay ?? 100;
+        this.maxExtrapolation = options.maxExtrapolation ?? 200;
+        this.maxSnapshots = options.maxSnapshots ?? 32;
+    }
+
+    public configure(options: SnapshotBufferOptions) {
+        if (options.interpolationDelay !== undefined) this.interpolationDelay = options.interpolationDelay;
+        if (options.maxExtrapolation !== undefined) this.maxExtrapolation = options.maxExtrapolation;
+        if (options.maxSnapshots !== undefined) this.maxSnapshots = options.maxSnapshots;
+    }
+
+    public push(state: T, ts: number, receivedAt: number = Date.now()) {
+        // Track the clock offset. Late packets only raise it slowly so jitter doesn't push the render time around.
+        const sample = receivedAt - ts;
+        if (this.clockOffset === null || sample < this.clockOffset) {
+            this.clockOffset = sample;
+        } else {
+            this.clockOffset += (sample - this.clockOffset) * 0.05;
+        }
+
+        // Insert in timestamp order, ignoring duplicates
+        let i = this.snapshots.length;
+        while (i > 0 && this.snapshots[i - 1].ts > ts) i--;
+        if (i > 0 && this.snapshots[i - 1].ts === ts) {
+            this.snapshots[i - 1] = { ts, state };
+            return;
+        }
+        this.snapshots.splice(i, 0, { ts, state });
+
+        if (this.snapshots.length > this.maxSnapshots) {
+            this.snapshots.splice(0, this.snapshots.length - this.maxSnapshots);
+        }
+    }
+
+    /**
+     * Converts a local `Date.now()` value into the sender's timeline using the estimated offset.
+     */
+    public toRemoteTime(localNow: number = Date.now()): number {
+        return localNow - (this.clockOffset ?? 0);
+    }
+
+    /**
+     * Returns the state to render at `remoteNow` (in the sender's clock), or null if the buffer is empty.
+     * Returns the same object as the previous call while the rendered state doesn't change
+     * (e.g. once extrapolation is capped, or between equal snapshots), so callers can skip re-rendering.
+     */
+    public sample(remoteNow: number): T | null {
+        const count = this.snapshots.length;
+        if (count === 0) return null;
+
+        const renderTime = remoteNow - this.interpolationDelay;
+        const oldest = this.snapshots[0];
+        const newest = this.snapshots[count - 1];
+
+        if (count === 1 || renderTime <= oldest.ts) return oldest.state;
+
+        if (renderTime >= newest.ts) {
+            // Buffer ran dry: extrapolate along the last known velocity, for a limited time
+            const prev = this.snapshots[count - 2];
+            const span = newest.ts - prev.ts;
+            const ahead = Math.min(renderTime - newest.ts, this.maxExtrapolation);
+            if (span <= 0 || ahead <= 0) return newest.state;
+            return this.blend(prev, newest, 1 + ahead / span);
+        }
+
+        let i = count - 2;
+        while (i > 0 && this.snapshots[i].ts > renderTime) i--;
+        const from = this.snapshots[i];
+        const to = this.snapshots[i + 1];
+
+        // Drop snapshots we will never render again, keeping the one we interpolate from
+        if (i > 0) this.snapshots.splice(0, i);
+
+        return this.blend(from, to, (renderTime - from.ts) / (to.ts - from.ts));
+    }
+
+    private blend(from: Snapshot<T>, to: Snapshot<T>, t: number): T {
+        const last = this.lastBlend;
+        if (last && last.from === from && last.to === to && last.t === t) return last.state;
+        let state = interpolateState(from.state, to.state, t);
+        // Interpolating between equal snapshots gives the same values in a new object
+        if (last) {
+            const { changed, removed } = diffState(last.state, state);
+            if (Object.keys(changed).length === 0 && removed.length === 0) state = last.state;
+        }
+        this.lastBlend = { from, to, t, state };
+        return state;
+    }
+
+    public get latest(): Snapshot<T> | null {
+        return this.snapshots[this.snapshots.length - 1] ?? null;
+    }
+
+    public get size(): number {
+        return this.snapshots.length;
+    }
+
+    public clear() {
+        this.snapshots = [];
+        this.clockOffset = null;
+        this.lastBlend = null;
+    }
+}
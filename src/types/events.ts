@@ -0,0 +1,100 @@
+import type { ConnectionStatus, CustomEvent, PresenceEvent, TransportKind, ReconnectingEvent, ResumedEvent, ModerationEvent, RoomListEvent, QueueStatus, MatchFound, MatchReady, MatchCancelled } from './index';
+import type { ClockStats } from '../logic/clockSync';
+import type { EntityUpdatePayload } from '../logic/delta';
+import type { WorldSnapshot } from '../client/EntityManager';
+import type { AuthoritativeState, OwnershipAnnouncement } from '../client/NetworkEntity';
+import type { EntitySpawnPayload, WorldFullSnapshot } from '../client/NetworkEntityRegistry';
+import type { HostStatePayload, HostInputPayload, HostHandoverPayload } from '../client/HostedMatch';
+
+/**
+ * Map of custom room event names to their payload types, declared by the game.
+ *
+ * @example
+ * interface MyEvents {
+ *     score: { points: number };
+ *     emote: { name: string };
+ * }
+ * const client = SocketClient.getInstance<MyEvents>();
+ * client.on('score', e => console.log(e.payload.points));
+ */
+export type EventMap = Record<string, any>;
+
+/**
+ * Untyped event map: any event name, any payload.
+ */
+export type DefaultEventMap = Record<string, any>;
+
+/**
+ * Events raised by the SocketClient itself. Listeners receive these payloads directly.
+ */
+export interface ClientEvents {
+    connect: ConnectionStatus;
+    disconnect: ConnectionStatus;
+    error: any;
+    'room:presence': PresenceEvent;
+    'room:emit': CustomEvent;
+    'room:moderation': ModerationEvent;
+    'room:list': RoomListEvent;
+    'match:status': QueueStatus;
+    'match:found': MatchFound;
+    'match:ready': MatchReady;
+    'match:cancelled': MatchCancelled;
+    'clock:sync': ClockStats;
+    transport: TransportKind | null;
+    reconnecting: ReconnectingEvent;
+    resumed: ResumedEvent;
+}
+
+/**
+ * Room events used by the library's own hooks and components.
+ */
+export interface LibraryEvents {
+    chat: { text: string };
+    'entity:update': EntityUpdatePayload<any>;
+    'entity:state': AuthoritativeState<any>;
+    'entity:input': { entityId: string; seq: number; input: any };
+    'entity:ownership': OwnershipAnnouncement;
+    'entity:ownership:request': { entityId: string };
+    'entity:ownership:denied': { entityId: string; requesterId: string };
+    'entity:spawn': EntitySpawnPayload;
+    'entity:despawn': { entityId: string };
+    'world:snapshot': WorldSnapshot;
+    'world:full': WorldFullSnapshot;
+    'voice:join': { muted: boolean };
+    'voice:leave': Record<string, never>;
+    'voice:mute': { muted: boolean };
+    'peer:announce': { peerId: string }; // Our peer id, once PeerJS is ready after we joined without one
+    'host:state': HostStatePayload<any>;
+    'host:input': HostInputPayload<any>;
+    'host:handover': HostHandoverPayload<any>;
+    'host:resign': Record<string, never>;
+    'router:relay': { messageId: string; event: string; payload: any }; // A peer-to-peer message relayed to the members we couldn't reach
+    'host:rejoin': Record<string, never>;
+}
+
+/**
+ * Every room event known for a given game event map.
+ */
+export type RoomEvents<E extends EventMap> = LibraryEvents & E;
+
+export type RoomEventName<E extends EventMap> = keyof RoomEvents<E> & string;
+
+export type EventName<E extends EventMap> = keyof ClientEvents | RoomEventName<E>;
+
+/**
+ * What a listener receives for an event: client events carry their own payload,
+ * room events arrive wrapped in a CustomEvent.
+ */
+export type EventPayload<E extends EventMap, K extends EventName<E>> =
+    K extends keyof ClientEvents
+        ? ClientEvents[K]
+        : K extends keyof RoomEvents<E>
+            ? CustomEvent<RoomEvents<E>[K]>
+            : never;
+
+/**
+ * Optional runtime checks for incoming room event payloads. Messages that fail are dropped.
+ */
+export type EventValidators<E extends EventMap> = {
+    [K in RoomEventName<E>]?: (payload: unknown) => boolean;
+};
@@ -1,3 +1,6 @@
+import type { RoomFilter, RoomSort } from '../logic/roomFilter';
+import type { SerializerOption } from '../client/serializers';
+
 /**
  * Authentication data required to connect to the game server.
  */
@@ -17,12 +20,57 @@ export interface Room {
     members: Member[];
     maxMembers?: number;
     isPrivate?: boolean;
-    password?: string;
+    password?: string; // Only visible to admins
+    hasPassword?: boolean; // Set when the password itself is hidden
     bannedUserIds: string[];
-    // meta?: any; // Custom room metadata
+    meta?: Record<string, any>; // Custom room metadata
     admins: string[];
 }
 
+/**
+ * Options for creating a room.
+ */
+export interface CreateRoomOptions {
+    roomId?: string; // Generated by the server if omitted
+    maxMembers?: number;
+    isPrivate?: boolean; // Hidden from room lists for non-members
+    password?: string; // Required to join
+    meta?: Record<string, any>; // Custom room metadata (mode, map, region...)
+}
+
+/**
+ * A page request for the room list.
+ */
+export interface RoomListQuery {
+    filter?: RoomFilter;
+    sort?: RoomSort;
+    limit?: number; // Page size. Default 20.
+    cursor?: string | null; // `nextCursor` of the previous page
+}
+
+export interface RoomPage {
+    rooms: Room[];
+    nextCursor: string | null; // null on the last page
+}
+
+/**
+ * Server push for room browsers: a room was created, changed (members, settings) or closed.
+ */
+export interface RoomListEvent {
+    type: 'created' | 'updated' | 'deleted';
+    roomId: string;
+    room?: Room; // Missing for 'deleted'
+    ts: number;
+}
+
+/**
+ * Options for joining a room.
+ */
+export interface JoinRoomOptions {
+    peerId?: string; // WebRTC Peer ID to share with the room
+    password?: string; // For password-protected rooms
+}
+
 /**
  * Represents a user/member in a room.
  */
@@ -34,15 +82,77 @@ export interface Member {
     peerId?: string; // WebRTC Peer ID
 }
 
+/**
+ * How messages currently travel: Socket.IO over WebSocket or HTTP polling, or the REST fallback.
+ */
+export type TransportKind = 'websocket' | 'polling' | 'rest';
+
+/**
+ * Delivery class of a message.
+ * - `reliable`: ordered and acknowledged (game events, chat).
+ * - `unreliable`: may be dropped or arrive out of order, never retried (position updates). Over the socket it is
+ *   sent as a volatile emit without ack; peer-to-peer it uses the `unreliable` data channel.
+ */
+export type Delivery = 'reliable' | 'unreliable';
+
+export interface EmitOptions {
+    delivery?: Delivery; // Default 'reliable'
+}
+
 /**
  * Connection status of the socket.
  */
 export interface ConnectionStatus {
     connected: boolean;
     socketId?: string;
+    transport?: TransportKind;
     error?: any;
 }
 
+/**
+ * Options for `SocketClient.connect`.
+ */
+export interface ConnectOptions {
+    restFallback?: boolean; // Fall back to REST + long-polling when the socket can't connect. Default true.
+    fallbackTimeout?: number; // ms the socket may stay down before falling back. Default 5000.
+    autoRejoin?: boolean; // Rejoin rooms after a reconnect. Default true.
+    presenceGrace?: number; // ms a 'leave' is held back in case the member comes straight back. Default 3000.
+    ackTimeout?: number; // ms to wait for the server to acknowledge a request. Default 10000.
+    peer?: PeerConfig | false; // WebRTC (PeerJS) setup, or false to turn peer-to-peer off. Default {}.
+    serializer?: SerializerOption; // Wire format of room events: 'json', 'binary' or your own. Default 'json'.
+}
+
+/**
+ * PeerJS setup. `host`, `port` and `secure` default to the game server's URL.
+ */
+export interface PeerConfig {
+    host?: string;
+    port?: number;
+    path?: string; // Default '/peerjs'
+    secure?: boolean;
+    key?: string; // PeerServer API key
+    iceServers?: RTCIceServer[]; // STUN / TURN servers. Default: PeerJS' public STUN servers.
+    id?: string | ((userId: string) => string); // Our peer id. Default: assigned by the PeerServer.
+    debug?: 0 | 1 | 2 | 3;
+    timeout?: number; // ms to wait for the PeerServer. Default 10000.
+}
+
+/**
+ * Emitted when the socket dropped unexpectedly and the client is trying to get back.
+ */
+export interface ReconnectingEvent {
+    attempt: number; // 0 right after the drop
+    reason?: string;
+}
+
+/**
+ * Emitted once the rooms held before a reconnect have been rejoined.
+ */
+export interface ResumedEvent {
+    rooms: string[];
+    failed: string[]; // Rooms we could not get back into (closed, kicked...)
+}
+
 // Server -> Client Events
 /**
  * Event payload for room presence changes (join/leave).
@@ -56,6 +166,139 @@ export interface PresenceEvent {
     ts: number;
 }
 
+/**
+ * Room settings an admin can change. `null` clears the password or the member limit.
+ */
+export interface RoomSettings {
+    password?: string | null;
+    isPrivate?: boolean;
+    maxMembers?: number | null;
+}
+
+export type ModerationAction = 'kick' | 'ban' | 'unban' | 'promote' | 'demote' | 'update';
+
+/**
+ * Event payload sent to a room when an admin moderates it.
+ */
+export interface ModerationEvent {
+    roomId: string;
+    action: ModerationAction;
+    by: string; // Admin who did it
+    userId?: string; // Target member (all actions but 'update')
+    reason?: string;
+    settings?: RoomSettings; // For 'update': the fields that changed
+    ts: number;
+}
+
+/**
+ * What a player is looking for when entering the matchmaking queue.
+ */
+export interface MatchCriteria {
+    mode: string;
+    region?: string;
+    rating?: number; // Skill rating, matched within a server-defined range
+    party?: string[]; // userIds queueing together; they are placed in the same match
+    meta?: Record<string, any>;
+}
+
+/**
+ * Our place in the matchmaking queue. Sent on entering the queue and as `match:status` updates.
+ */
+export interface QueueStatus {
+    ticketId: string;
+    position: number; // 1 = next in line
+    estimatedWait: number; // ms
+    playersInQueue?: number;
+}
+
+/**
+ * A match was found. When `requiresAccept` is set, every player must accept before `acceptDeadline`.
+ */
+export interface MatchFound {
+    ticketId: string;
+    matchId: string;
+    roomId: string;
+    players: string[];
+    requiresAccept: boolean;
+    acceptDeadline?: number; // Server time (ms)
+    password?: string; // Only without a ready check; otherwise it comes with `match:ready`
+}
+
+/**
+ * Everyone accepted (or no ready check was needed): the match room is open.
+ */
+export interface MatchReady {
+    matchId: string;
+    roomId: string;
+    password?: string; // Match rooms are usually locked to the matched players
+}
+
+/**
+ * The queue ticket or a pending match was cancelled.
+ */
+export interface MatchCancelled {
+    ticketId: string;
+    matchId?: string;
+    reason: 'cancelled' | 'declined' | 'timeout' | 'error';
+    requeued: boolean; // True when we were put back in the queue (someone else declined)
+}
+
+/**
+ * An event delivered by the REST long-polling endpoint.
+ */
+export type PolledEvent =
+    | { type: 'room:emit'; data: CustomEvent }
+    | { type: 'room:presence'; data: PresenceEvent }
+    | { type: 'room:moderation'; data: ModerationEvent };
+
+/**
+ * A message over a WebRTC data connection.
+ */
+export interface PeerMessage<T = any> {
+    event: string;
+    payload: T;
+    roomId?: string; // Set for room events relayed peer-to-peer
+    from: string; // Sender's userId
+    peerId?: string; // Sender's peerId, set on receipt
+    ts: number;
+    id?: string; // Set by MessageRouter, so a copy also relayed by the server is dropped
+}
+
+export type OutgoingPeerMessage<T = any> = Pick<PeerMessage<T>, 'event' | 'payload' | 'roomId' | 'id'>;
+
+/**
+ * Settings of a named data channel, as in `RTCDataChannelInit`. Leave both limits unset for full reliability.
+ */
+export interface PeerChannelOptions {
+    ordered?: boolean; // Default true
+    maxRetransmits?: number; // Give up after this many retransmissions (0: send once)
+    maxPacketLifeTime?: number; // Give up after this many ms
+}
+
+export interface PeerSendOptions {
+    channel?: string; // Named channel, see `PeerClient.defineChannel`. Default 'reliable'.
+}
+
+export interface PeerConnectionEvent {
+    peerId: string;
+    userId: string | null;
+}
+
+export type PeerStatus = 'idle' | 'connecting' | 'open' | 'disconnected' | 'error';
+
+export type PeerConnectionState = 'connecting' | 'open' | 'failed';
+
+/**
+ * State of our data connection to one peer. Closed connections are dropped from the list.
+ */
+export interface PeerInfo {
+    peerId: string;
+    userId: string | null;
+    state: PeerConnectionState;
+    iceState?: RTCIceConnectionState;
+    inCall: boolean; // A voice call is up with this peer
+}
+
 /**
  * Standard structure for events emitted by the server.
  */
@@ -66,3 +309,5 @@ export interface CustomEvent<T = any> {
     payload: T;
     ts: number;
 }
+
+export * from './events';